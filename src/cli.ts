@@ -0,0 +1,499 @@
+/**
+ * @fileoverview Command Line Subcommands
+ * Tools for working with commands directories without starting the server.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { parseArgs } from 'util';
+import YAML from 'yaml';
+import {
+  configFromEnv,
+  loadConfigFiles,
+  mergeConfigs,
+  validateConfig,
+} from './config.js';
+import { formatDiagnostic } from './diagnostics.js';
+import { gitSourceDirectory, syncGitSource } from './git.js';
+import {
+  formatCommandTable,
+  formatInspection,
+  inspectCommand,
+  listCommands,
+} from './inspect.js';
+import { formatLintReport, lintCommands } from './lint.js';
+import { renderTemplate } from './parser.js';
+import {
+  isValidToolName,
+  resolveCommand,
+  uniqueDirectories,
+} from './registry.js';
+import {
+  buildTemplate,
+  promptTemplateSpec,
+  writeTemplate,
+} from './scaffold.js';
+import type { Ask } from './scaffold.js';
+import { formatIssues, validateArguments } from './validator.js';
+import type { PublisherConfig, TemplateArguments } from './types.js';
+
+type CliCommand = (_args: string[]) => Promise<number>;
+
+type ResolvedConfig = PublisherConfig & { directories: string[] };
+
+type MissingMode = 'error' | 'keep' | 'empty';
+
+const MISSING_MODES: readonly MissingMode[] = ['error', 'keep', 'empty'];
+
+const USAGE = `Usage: cursor-command-publisher [command]
+
+Without a command, starts the MCP server over stdio, or HTTP with
+--transport http.
+
+Server options (override .cursor/publisher.config.json and COMMANDS_*):
+  --dir <dir>                         Commands directory (repeatable)
+  --depth <n>                         Subdirectory levels holding commands
+  --separator _|-|.                   Joins folders into tool names
+  --precedence last|first             Which directory wins a name
+  --expose both|tools|prompts         Register commands as tools, prompts or both
+  --log-level silent|error|warn|info  Server log verbosity
+  --transport stdio|http              Serve one client over stdio, or many over HTTP
+  --port <n>                          HTTP port on localhost (default: 3000)
+
+Commands:
+  lint [dirs...] [--json] [--strict]  Check templates for problems
+  render <name|file> [options]        Print a rendered template
+      --var key=value                 Set a variable (repeatable)
+      --vars-file <file>              Read variables from a JSON or YAML file
+      --missing=error|keep|empty      Handle missing required variables
+  list [--json]                       Show which file provides each command
+  inspect <name|file> [--json]        Show a command's schema and outline
+  new <name> [--global|--project]     Create a template interactively
+  sync                                Fetch the configured git sources`;
+
+/**
+ * The default global and project commands directories.
+ * @returns {{ global: string; project: string }} Absolute directory paths
+ */
+const defaultCommandsDirs = (): { global: string; project: string } => ({
+  global: path.join(os.homedir(), '.cursor/published'),
+  project: path.join(process.cwd(), '.cursor/published'),
+});
+
+/**
+ * Resolves the effective configuration: command line overrides win over
+ * the COMMANDS_* environment variables, which win over the project and
+ * then the global config file. Without configured directories, the global
+ * and project defaults are used. The checkouts of git sources come first,
+ * so local directories override them.
+ * @param {PublisherConfig} [overrides] - Options from command line flags
+ * @param {Record<string, string | undefined>} [env] - Environment to read COMMANDS_* from
+ * @returns {Promise<ResolvedConfig>} Config with the directories in precedence order, lowest first
+ * @throws {Error} If a config file, variable or flag is invalid
+ */
+const resolveConfig = async (
+  overrides: PublisherConfig = {},
+  env: Record<string, string | undefined> = process.env
+): Promise<ResolvedConfig> => {
+  const config = mergeConfigs(
+    await loadConfigFiles(),
+    configFromEnv(env),
+    validateConfig(overrides, 'command line')
+  );
+  const { global, project } = defaultCommandsDirs();
+  return {
+    ...config,
+    directories: uniqueDirectories([
+      ...(config.sources ?? []).map(source => gitSourceDirectory(source)),
+      ...(config.directories ?? [global, project]),
+    ]),
+  };
+};
+
+/**
+ * Parses the flags accepted when starting the server.
+ * @param {string[]} args - Arguments after the executable
+ * @returns {PublisherConfig} Config overrides from the flags
+ * @throws {TypeError} ERR_PARSE_ARGS_* for unknown flags or missing values
+ */
+const parseServerArgs = (args: string[]): PublisherConfig => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      dir: { type: 'string', multiple: true },
+      depth: { type: 'string' },
+      separator: { type: 'string' },
+      precedence: { type: 'string' },
+      expose: { type: 'string' },
+      'log-level': { type: 'string' },
+      transport: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
+
+  return {
+    ...(values.dir && { directories: values.dir }),
+    ...(values.depth !== undefined && { depth: Number(values.depth) }),
+    ...(values.separator !== undefined && { separator: values.separator }),
+    ...(values.precedence !== undefined && {
+      precedence: values.precedence as PublisherConfig['precedence'],
+    }),
+    ...(values.expose !== undefined && {
+      expose: values.expose as PublisherConfig['expose'],
+    }),
+    ...(values['log-level'] !== undefined && {
+      logLevel: values['log-level'] as PublisherConfig['logLevel'],
+    }),
+    ...(values.transport !== undefined && {
+      transport: values.transport as PublisherConfig['transport'],
+    }),
+    ...(values.port !== undefined && { port: Number(values.port) }),
+  };
+};
+
+/**
+ * `lint [dirs...]`: reports template diagnostics and exits non-zero on
+ * errors, or on warnings too with `--strict`.
+ */
+const runLint: CliCommand = async args => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      strict: { type: 'boolean', default: false },
+    },
+  });
+
+  const config = await resolveConfig();
+  const dirs = positionals.length ? positionals : config.directories;
+  const report = await lintCommands(dirs, config);
+  console.log(
+    values.json ? JSON.stringify(report, null, 2) : formatLintReport(report)
+  );
+
+  const failed =
+    report.errorCount > 0 || (values.strict && report.warningCount > 0);
+  return failed ? 1 : 0;
+};
+
+/**
+ * `render <name|file>`: renders a command with variables from `--vars-file`
+ * and `--var` (which wins), validated like MCP arguments. `--missing`
+ * decides whether missing required variables fail, stay as `#{name}`, or
+ * render empty.
+ */
+const runRender: CliCommand = async args => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      var: { type: 'string', multiple: true, default: [] },
+      'vars-file': { type: 'string' },
+      missing: { type: 'string', default: 'error' },
+    },
+  });
+
+  const [target] = positionals;
+  const missing = values.missing as MissingMode;
+  if (!target || positionals.length > 1 || !MISSING_MODES.includes(missing)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const provided = {
+    ...(values['vars-file'] ? await readVarsFile(values['vars-file']) : {}),
+    ...parseVarFlags(values.var),
+  };
+
+  const config = await resolveConfig();
+  const tool = await resolveCommand(target, config.directories, config);
+  if (!tool) {
+    console.error(`Command not found: ${target}`);
+    return 1;
+  }
+
+  const { inputSchema, vars } = tool.parsed;
+  const { values: resolved, issues } = validateArguments(
+    missing === 'error' ? inputSchema : { ...inputSchema, required: [] },
+    provided
+  );
+  if (issues.length) {
+    console.error(
+      `Invalid arguments for ${tool.name}:\n${formatIssues(issues)}`
+    );
+    return 1;
+  }
+
+  // Variables without a value or default render as empty text
+  const filled: TemplateArguments =
+    missing === 'empty'
+      ? Object.fromEntries(
+          vars
+            .filter(variable => variable.schema.default === undefined)
+            .map(variable => [variable.name, ''])
+        )
+      : {};
+
+  console.log(renderTemplate(tool.parsed, { ...filled, ...resolved }));
+  return 0;
+};
+
+/**
+ * Parses repeated `--var key=value` flags; values may contain `=`.
+ * @throws {TypeError} ERR_PARSE_ARGS_INVALID_OPTION_VALUE for flags without `=`
+ */
+const parseVarFlags = (flags: string[]): Record<string, string> =>
+  Object.fromEntries(
+    flags.map(flag => {
+      const separator = flag.indexOf('=');
+      if (separator <= 0) {
+        throw Object.assign(
+          new TypeError(`Option '--var ${flag}' must be in the form key=value`),
+          { code: 'ERR_PARSE_ARGS_INVALID_OPTION_VALUE' }
+        );
+      }
+      return [flag.slice(0, separator), flag.slice(separator + 1)];
+    })
+  );
+
+/**
+ * Reads variables from a JSON or YAML file containing a single object.
+ * @throws {Error} If the file does not contain an object
+ */
+const readVarsFile = async (
+  filePath: string
+): Promise<Record<string, unknown>> => {
+  const parsed: unknown = YAML.parse(await fs.readFile(filePath, 'utf-8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Variables file ${filePath} must contain an object`);
+  }
+  return parsed as Record<string, unknown>;
+};
+
+/**
+ * `list`: prints every command with its source file, description and
+ * variables, noting names overridden by a later directory.
+ */
+const runList: CliCommand = async args => {
+  const { values } = parseArgs({
+    args,
+    options: { json: { type: 'boolean', default: false } },
+  });
+
+  const config = await resolveConfig();
+  const commands = await listCommands(config.directories, config);
+  console.log(
+    values.json
+      ? JSON.stringify(commands, null, 2)
+      : formatCommandTable(commands)
+  );
+  return 0;
+};
+
+/**
+ * `inspect <name|file>`: prints the inputSchema, prompt arguments,
+ * dependencies, AST outline and diagnostics of one command.
+ */
+const runInspect: CliCommand = async args => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { json: { type: 'boolean', default: false } },
+  });
+
+  const [target] = positionals;
+  if (!target || positionals.length > 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const config = await resolveConfig();
+  const tool = await resolveCommand(target, config.directories, config);
+  if (!tool) {
+    console.error(`Command not found: ${target}`);
+    return 1;
+  }
+
+  const inspection = inspectCommand(tool);
+  console.log(
+    values.json
+      ? JSON.stringify(inspection, null, 2)
+      : formatInspection(inspection)
+  );
+  return 0;
+};
+
+/**
+ * `new <name>`: asks for a description and variables, writes the template
+ * to the project directory (or the global one with `--global`) and parses
+ * it back to confirm it registers.
+ */
+const runNew: CliCommand = async args => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      global: { type: 'boolean', default: false },
+      project: { type: 'boolean', default: false },
+    },
+  });
+
+  const [name] = positionals;
+  if (!name || positionals.length > 1 || (values.global && values.project)) {
+    console.error(USAGE);
+    return 2;
+  }
+  if (!isValidToolName(name)) {
+    console.error(
+      `Invalid command name "${name}": use 1-64 letters, digits, "_", "-" or "."`
+    );
+    return 1;
+  }
+
+  const { global, project } = defaultCommandsDirs();
+  const dir = values.global ? global : project;
+  const existing = path.join(dir, `${name}.md`);
+  const exists = await fs
+    .stat(existing)
+    .then(() => true)
+    .catch(() => false);
+  if (exists) {
+    console.error(`${existing} already exists`);
+    return 1;
+  }
+
+  const spec = await withPrompt(promptTemplateSpec);
+  const { filePath, parsed } = await writeTemplate(
+    dir,
+    name,
+    buildTemplate(spec)
+  );
+
+  const errors = parsed.diagnostics.filter(item => item.severity === 'error');
+  if (errors.length || parsed.vars.length !== spec.variables.length) {
+    errors.forEach(item => console.error(formatDiagnostic(item, filePath)));
+    console.error(`Created ${filePath}, but it does not parse cleanly`);
+    return 1;
+  }
+
+  console.log(
+    `Created ${filePath}: command "${name}" with ${parsed.vars.length} variable(s)`
+  );
+  return 0;
+};
+
+/**
+ * Runs a question flow against stdin, one answer per line, so piped
+ * answers work as well as a terminal.
+ * @throws {Error} If input ends before all questions are answered
+ */
+const withPrompt = async <T>(flow: (_ask: Ask) => Promise<T>): Promise<T> => {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const lines = rl[Symbol.asyncIterator]();
+  try {
+    return await flow(async question => {
+      process.stdout.write(question);
+      const { value, done } = await lines.next();
+      if (done) throw new Error('Input ended before the template was complete');
+      return String(value);
+    });
+  } finally {
+    rl.close();
+  }
+};
+
+/**
+ * `sync`: fetches every configured git source into the cache. A running
+ * server picks up the new checkout through its watcher.
+ */
+const runSync: CliCommand = async args => {
+  parseArgs({ args, options: {} });
+
+  const { sources = [] } = await resolveConfig();
+  if (!sources.length) {
+    console.error('No git sources configured');
+    return 1;
+  }
+
+  let failed = 0;
+  for (const source of sources) {
+    try {
+      const dir = await syncGitSource(source);
+      console.log(`${source.git}@${source.ref ?? 'HEAD'} -> ${dir}`);
+    } catch (error) {
+      failed += 1;
+      console.error(error instanceof Error ? error.message : error);
+    }
+  }
+  return failed ? 1 : 0;
+};
+
+const COMMANDS: Record<string, CliCommand> = {
+  lint: runLint,
+  render: runRender,
+  list: runList,
+  inspect: runInspect,
+  new: runNew,
+  sync: runSync,
+};
+
+/**
+ * Whether the first argument names a subcommand rather than server startup.
+ * @param {string | undefined} name - First command line argument
+ * @returns {boolean} True for a known subcommand
+ */
+const isCliCommand = (name: string | undefined): boolean =>
+  !!name && Object.hasOwn(COMMANDS, name);
+
+/**
+ * Whether an error came from parseArgs rejecting the command line.
+ */
+const isUsageError = (error: unknown): error is TypeError =>
+  error instanceof TypeError &&
+  String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS');
+
+/**
+ * Prints why a command or server startup failed, without a stack trace.
+ * @param {unknown} error - Error thrown by a command or while starting
+ * @returns {number} Exit code: 2 with the usage for invalid options, 1 otherwise
+ */
+const reportCliError = (error: unknown): number => {
+  if (isUsageError(error)) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  console.error(error instanceof Error ? error.message : error);
+  return 1;
+};
+
+/**
+ * Runs a subcommand and returns its exit code.
+ * Invalid options print the usage and exit with code 2; other failures
+ * print their message and exit with code 1.
+ * @param {string[]} argv - Arguments after the executable, starting with the command name
+ * @returns {Promise<number>} Process exit code
+ */
+const runCli = async (argv: string[]): Promise<number> => {
+  const [name, ...args] = argv;
+  const command =
+    name && Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (!command) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    return await command(args);
+  } catch (error) {
+    return reportCliError(error);
+  }
+};
+
+export { runCli, isCliCommand, reportCliError, resolveConfig, parseServerArgs };
+export type { ResolvedConfig };
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Conditional Block Expressions
+ * Parses and evaluates comparisons like `language == "python"` or
+ * `severity in [high, critical]` without executing template code.
+ */
+
+import YAML from 'yaml';
+import type {
+  Condition,
+  ConditionOperator,
+  ScalarValue,
+  VariableValue,
+} from './types.js';
+
+const COMPARISON_PATTERN = /^([^\s=!<>]+)\s*(==|!=|<=|>=|<|>)\s*(.+)$/;
+const MEMBERSHIP_PATTERN = /^(\S+)\s+(not\s+in|in)\s+(.+)$/;
+
+/**
+ * Parses a block expression into a variable name and optional condition.
+ * Plain names (`#{?author}`) have no condition.
+ * @param {string} expression - Text between `#{?` and `}`
+ * @returns {{ variable: string; condition?: Condition } | undefined} Parsed expression, or undefined if the comparison value is malformed
+ */
+const parseCondition = (
+  expression: string
+): { variable: string; condition?: Condition } | undefined => {
+  const match =
+    expression.match(MEMBERSHIP_PATTERN) ??
+    expression.match(COMPARISON_PATTERN);
+  if (!match) return { variable: expression };
+
+  const [, variable, rawOperator, rawValue] = match;
+  const operator = rawOperator.replace(/\s+/, ' ') as ConditionOperator;
+  const value = parseLiteral(rawValue.trim());
+  if (value === undefined) return undefined;
+
+  const isMembership = operator === 'in' || operator === 'not in';
+  if (!isMembership && Array.isArray(value)) return undefined;
+
+  return {
+    variable: variable.trim(),
+    condition: { operator, value: isMembership ? [value].flat() : value },
+  };
+};
+
+/**
+ * Parses a literal as YAML, so quoted strings, bare words, numbers,
+ * booleans and flow lists (`[a, b]`) all work without evaluation.
+ */
+const parseLiteral = (raw: string): ScalarValue | ScalarValue[] | undefined => {
+  try {
+    const value: unknown = YAML.parse(raw);
+    if (isScalar(value)) return value;
+    if (Array.isArray(value) && value.every(isScalar)) return value;
+    return undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const isScalar = (value: unknown): value is ScalarValue =>
+  ['string', 'number', 'boolean'].includes(typeof value);
+
+/**
+ * Evaluates a condition against the control variable's value.
+ * Equality and membership compare string forms, so `"3"` equals `3`;
+ * ordering comparisons require both sides to be numeric.
+ * @param {VariableValue | undefined} value - Current value of the control variable
+ * @param {Condition} condition - Parsed condition from the block
+ * @returns {boolean} Whether the condition holds
+ */
+const evaluateCondition = (
+  value: VariableValue | undefined,
+  condition: Condition
+): boolean => {
+  const { operator, value: expected } = condition;
+  const actual = value ?? undefined;
+
+  switch (operator) {
+    case '==':
+      return actual !== undefined && matches(actual, expected);
+    case '!=':
+      return actual === undefined || !matches(actual, expected);
+    case 'in':
+      return actual !== undefined && matchesAny(actual, expected);
+    case 'not in':
+      return actual === undefined || !matchesAny(actual, expected);
+    default:
+      return compareNumbers(actual, expected, operator);
+  }
+};
+
+const matches = (
+  actual: VariableValue,
+  expected: ScalarValue | ScalarValue[]
+): boolean =>
+  Array.isArray(actual)
+    ? actual.some(item => matches(item, expected))
+    : String(actual) === String(expected);
+
+const matchesAny = (
+  actual: VariableValue,
+  expected: ScalarValue | ScalarValue[]
+): boolean => [expected].flat().some(item => matches(actual, item));
+
+const compareNumbers = (
+  actual: VariableValue | undefined,
+  expected: ScalarValue | ScalarValue[],
+  operator: ConditionOperator
+): boolean => {
+  const left = toNumber(actual);
+  const right = toNumber(expected);
+  if (Number.isNaN(left) || Number.isNaN(right)) return false;
+
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    default:
+      return false;
+  }
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+export { parseCondition, evaluateCondition };
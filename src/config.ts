@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Publisher Configuration
+ * Reads `.cursor/publisher.config.json` or `.yaml` from the home and project
+ * directories, and the COMMANDS_* environment variables, into one config.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import YAML from 'yaml';
+import { isLocalRepository, validateGitSource } from './git.js';
+import { LOG_LEVELS } from './logger.js';
+import { validateScanOptions } from './registry.js';
+import type {
+  ExposeMode,
+  LogLevel,
+  PublisherConfig,
+  ScanOptions,
+  TransportMode,
+} from './types.js';
+
+type ConfigLocations = {
+  global: string;
+  project: string;
+};
+
+const CONFIG_FILES = [
+  'publisher.config.json',
+  'publisher.config.yaml',
+  'publisher.config.yml',
+];
+const CONFIG_KEYS: readonly (keyof PublisherConfig)[] = [
+  'directories',
+  'sources',
+  'depth',
+  'separator',
+  'precedence',
+  'expose',
+  'logLevel',
+  'transport',
+  'port',
+];
+const EXPOSE_MODES: readonly ExposeMode[] = ['both', 'tools', 'prompts'];
+const TRANSPORT_MODES: readonly TransportMode[] = ['stdio', 'http'];
+
+/**
+ * Checks a parsed config object and returns it as a config.
+ * @param {unknown} value - Parsed JSON or YAML
+ * @param {string} source - File or variable the value came from, for errors
+ * @returns {PublisherConfig} The validated config
+ * @throws {Error} Listing every problem found
+ */
+const validateConfig = (value: unknown, source: string): PublisherConfig => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid config in ${source}: expected an object`);
+  }
+
+  const config = value as Record<string, unknown>;
+  const problems = Object.keys(config)
+    .filter(key => !CONFIG_KEYS.includes(key as keyof PublisherConfig))
+    .map(key => `unknown key "${key}"`);
+
+  const { directories, sources, expose, logLevel, transport, port } = config;
+  if (
+    directories !== undefined &&
+    (!Array.isArray(directories) ||
+      !directories.every(dir => typeof dir === 'string' && dir.trim()))
+  ) {
+    problems.push('directories must be a list of paths');
+  }
+  if (sources !== undefined) {
+    if (Array.isArray(sources)) {
+      problems.push(...sources.flatMap(validateGitSource));
+    } else {
+      problems.push('sources must be a list of git sources');
+    }
+  }
+  if (expose !== undefined && !EXPOSE_MODES.includes(expose as ExposeMode)) {
+    problems.push(`expose must be one of ${EXPOSE_MODES.join(', ')}`);
+  }
+  if (logLevel !== undefined && !LOG_LEVELS.includes(logLevel as LogLevel)) {
+    problems.push(`logLevel must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  if (
+    transport !== undefined &&
+    !TRANSPORT_MODES.includes(transport as TransportMode)
+  ) {
+    problems.push(`transport must be one of ${TRANSPORT_MODES.join(', ')}`);
+  }
+  if (
+    port !== undefined &&
+    !(
+      Number.isInteger(port) &&
+      (port as number) >= 0 &&
+      (port as number) <= 65535
+    )
+  ) {
+    problems.push('port must be an integer from 0 to 65535');
+  }
+
+  (['depth', 'separator', 'precedence'] as const)
+    .filter(key => config[key] !== undefined)
+    .forEach(key => {
+      try {
+        validateScanOptions({ [key]: config[key] } as ScanOptions);
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : String(error));
+      }
+    });
+
+  if (problems.length) {
+    throw new Error(
+      `Invalid config in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`
+    );
+  }
+  return config as PublisherConfig;
+};
+
+/**
+ * Reads the first config file found in `<base>/.cursor`. Relative
+ * directories and local git repositories are resolved against the config
+ * file, and `~/` against the home directory.
+ * @param {string} base - Home or project directory
+ * @returns {Promise<PublisherConfig>} The config, or an empty one without a file
+ * @throws {Error} If the file is not valid JSON or YAML, or fails validation
+ */
+const readConfigFile = async (base: string): Promise<PublisherConfig> => {
+  for (const fileName of CONFIG_FILES) {
+    const filePath = path.join(base, '.cursor', fileName);
+    const content = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+    if (content === undefined) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = YAML.parse(content) ?? {};
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid config in ${filePath}: ${message}`);
+    }
+
+    const config = validateConfig(parsed, filePath);
+    const configDir = path.dirname(filePath);
+    return {
+      ...config,
+      ...(config.directories && {
+        directories: config.directories.map(dir =>
+          resolveDirectory(configDir, dir)
+        ),
+      }),
+      ...(config.sources && {
+        sources: config.sources.map(source =>
+          isLocalRepository(source.git)
+            ? { ...source, git: resolveDirectory(configDir, source.git) }
+            : source
+        ),
+      }),
+    };
+  }
+  return {};
+};
+
+const resolveDirectory = (base: string, dir: string): string =>
+  dir.startsWith('~/')
+    ? path.join(os.homedir(), dir.slice(2))
+    : path.resolve(base, dir);
+
+/**
+ * Loads the global and project config files, the project one winning
+ * key by key.
+ * @param {ConfigLocations} [locations] - Home and project directories
+ * @returns {Promise<PublisherConfig>} Merged config
+ * @throws {Error} If either file is invalid
+ */
+const loadConfigFiles = async (
+  locations: ConfigLocations = { global: os.homedir(), project: process.cwd() }
+): Promise<PublisherConfig> =>
+  mergeConfigs(
+    await readConfigFile(locations.global),
+    await readConfigFile(locations.project)
+  );
+
+/**
+ * Reads COMMANDS_DIR (comma-separated directories), COMMANDS_DEPTH,
+ * COMMANDS_SEPARATOR and COMMANDS_PRECEDENCE.
+ * @param {Record<string, string | undefined>} [env] - Environment to read from
+ * @returns {PublisherConfig} Config with the variables that are set
+ * @throws {Error} If a variable is invalid
+ */
+const configFromEnv = (
+  env: Record<string, string | undefined> = process.env
+): PublisherConfig => {
+  const directories = env.COMMANDS_DIR?.split(',')
+    .map(dir => dir.trim())
+    .filter(dir => dir.length > 0);
+
+  return validateConfig(
+    {
+      ...(directories?.length && { directories }),
+      ...(env.COMMANDS_DEPTH && { depth: Number(env.COMMANDS_DEPTH) }),
+      ...(env.COMMANDS_SEPARATOR && { separator: env.COMMANDS_SEPARATOR }),
+      ...(env.COMMANDS_PRECEDENCE && { precedence: env.COMMANDS_PRECEDENCE }),
+    },
+    'environment'
+  );
+};
+
+/**
+ * Merges configs, later ones winning key by key. Undefined values are
+ * ignored, so a partial config only overrides what it sets.
+ * @param {...PublisherConfig} configs - Configs, lowest precedence first
+ * @returns {PublisherConfig} Merged config
+ */
+const mergeConfigs = (...configs: PublisherConfig[]): PublisherConfig =>
+  Object.assign(
+    {},
+    ...configs.map(config =>
+      Object.fromEntries(
+        Object.entries(config).filter(([, value]) => value !== undefined)
+      )
+    )
+  );
+
+export {
+  validateConfig,
+  readConfigFile,
+  loadConfigFiles,
+  configFromEnv,
+  mergeConfigs,
+};
+export type { ConfigLocations };
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Template Diagnostics
+ * Builds and formats the problems reported by parseTemplate, with
+ * 1-based line and column positions in the file that contains them.
+ */
+
+import type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+} from './types.js';
+
+/**
+ * Converts a character offset into a 1-based line and column.
+ * @param {string} content - Full file content
+ * @param {number} offset - Character offset into content
+ * @returns {{ line: number; column: number }} Position of the offset
+ */
+const positionAt = (
+  content: string,
+  offset: number
+): { line: number; column: number } => {
+  const lines = content.slice(0, offset).split('\n');
+  return {
+    line: lines.length,
+    column: (lines[lines.length - 1]?.length ?? 0) + 1,
+  };
+};
+
+/**
+ * Creates a diagnostic located at an offset in a file.
+ * @param {DiagnosticSeverity} severity - Whether the problem breaks the template
+ * @param {DiagnosticCode} code - Stable identifier for the kind of problem
+ * @param {string} message - Human-readable description
+ * @param {{ content: string; offset: number; source?: string }} location - File content, offset, and optional file id
+ * @returns {Diagnostic} Located diagnostic
+ */
+const createDiagnostic = (
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+  location: { content: string; offset: number; source?: string }
+): Diagnostic => ({
+  severity,
+  code,
+  message,
+  ...positionAt(location.content, location.offset),
+  ...(location.source && { source: location.source }),
+});
+
+/**
+ * Formats a diagnostic as `file:line:column: severity: message`.
+ * @param {Diagnostic} diagnostic - Diagnostic to format
+ * @param {string} [fallbackSource] - File name used when the diagnostic has no source
+ * @returns {string} Single-line description
+ */
+const formatDiagnostic = (
+  diagnostic: Diagnostic,
+  fallbackSource = '<template>'
+): string =>
+  `${diagnostic.source ?? fallbackSource}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`;
+
+export { positionAt, createDiagnostic, formatDiagnostic };
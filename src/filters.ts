@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Placeholder Filters
+ * Parses and applies filter chains like `#{code | indent 4}` or
+ * `#{text | trim | json}` from a fixed library of built-in filters.
+ */
+
+import path from 'path';
+import type { FilterCall, ScalarValue, VariableValue } from './types.js';
+
+type FilterDefinition = {
+  description: string;
+  maxArgs: number;
+  numericArgs?: boolean;
+  apply: (_value: VariableValue, _args: string[]) => VariableValue;
+};
+
+const TOKEN_PATTERN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+/**
+ * Applies a text transform to a value, item by item for lists.
+ */
+const mapText =
+  (transform: (_text: string) => string) =>
+  (value: VariableValue): VariableValue =>
+    Array.isArray(value)
+      ? value.map(item => transform(String(item)))
+      : transform(String(value));
+
+const toText = (value: VariableValue): string =>
+  Array.isArray(value) ? value.map(String).join(', ') : String(value);
+
+const toLines = (value: VariableValue): ScalarValue[] =>
+  Array.isArray(value) ? value : String(value).split('\n');
+
+const FILTERS: Record<string, FilterDefinition> = {
+  upper: {
+    description: 'Converts text to upper case',
+    maxArgs: 0,
+    apply: mapText(text => text.toUpperCase()),
+  },
+  lower: {
+    description: 'Converts text to lower case',
+    maxArgs: 0,
+    apply: mapText(text => text.toLowerCase()),
+  },
+  capitalize: {
+    description: 'Upper-cases the first character',
+    maxArgs: 0,
+    apply: mapText(text => text.charAt(0).toUpperCase() + text.slice(1)),
+  },
+  trim: {
+    description: 'Removes leading and trailing whitespace',
+    maxArgs: 0,
+    apply: mapText(text => text.trim()),
+  },
+  basename: {
+    description: 'Final segment of a path',
+    maxArgs: 0,
+    apply: mapText(text => path.posix.basename(text.replace(/\\/g, '/'))),
+  },
+  dirname: {
+    description: 'Directory portion of a path',
+    maxArgs: 0,
+    apply: mapText(text => path.posix.dirname(text.replace(/\\/g, '/'))),
+  },
+  indent: {
+    description: 'Indents every line by N spaces (default 2)',
+    maxArgs: 1,
+    numericArgs: true,
+    apply: (value, [width = '2']) =>
+      toText(value)
+        .split('\n')
+        .map(line => (line ? ' '.repeat(Number(width)) + line : line))
+        .join('\n'),
+  },
+  truncate: {
+    description: 'Shortens text to N characters, ending with an ellipsis',
+    maxArgs: 1,
+    numericArgs: true,
+    apply: (value, [length = '80']) => {
+      const text = toText(value);
+      const limit = Number(length);
+      return text.length > limit ? `${text.slice(0, limit)}…` : text;
+    },
+  },
+  join: {
+    description: 'Joins list items with a separator (default ", ")',
+    maxArgs: 1,
+    apply: (value, [separator = ', ']) =>
+      Array.isArray(value) ? value.map(String).join(separator) : value,
+  },
+  bullets: {
+    description: 'Formats list items or lines as a markdown bullet list',
+    maxArgs: 0,
+    apply: value =>
+      toLines(value)
+        .filter(line => String(line).trim() !== '')
+        .map(line => `- ${line}`)
+        .join('\n'),
+  },
+  json: {
+    description: 'Encodes the value as JSON',
+    maxArgs: 0,
+    apply: value => JSON.stringify(value),
+  },
+};
+
+/**
+ * Splits on `|` characters outside of quoted arguments.
+ */
+const splitPipes = (expression: string): string[] => {
+  const segments: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      segments.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  segments.push(current);
+
+  return segments;
+};
+
+/**
+ * Splits a placeholder expression into its variable name and filter chain.
+ * Filter names and arguments are not checked; see validateFilters.
+ * @param {string} expression - Text such as `code | indent 4`
+ * @returns {{ name: string; filters: FilterCall[] }} Variable name and filters in order
+ */
+const parseFilterChain = (
+  expression: string
+): { name: string; filters: FilterCall[] } => {
+  const [name = '', ...segments] = splitPipes(expression);
+  const filters = segments.map(segment => {
+    const [filterName = '', ...args] = Array.from(
+      segment.matchAll(TOKEN_PATTERN),
+      match => match[1] ?? match[2] ?? match[3]
+    );
+    return { name: filterName, args };
+  });
+  return { name: name.trim(), filters };
+};
+
+/**
+ * Looks up a built-in filter. Only FILTERS' own keys count, so names such
+ * as `toString` or `constructor` are unknown filters.
+ * @param {string} name - Filter name
+ * @returns {FilterDefinition | undefined} The filter, or undefined if unknown
+ */
+const filterDefinition = (name: string): FilterDefinition | undefined =>
+  Object.hasOwn(FILTERS, name) ? FILTERS[name] : undefined;
+
+/**
+ * Checks a filter chain against the built-in library.
+ * @param {FilterCall[]} filters - Parsed filter chain
+ * @returns {string | undefined} Error message for the first invalid filter
+ */
+const validateFilters = (filters: FilterCall[]): string | undefined => {
+  for (const filter of filters) {
+    if (!filter.name) return 'Empty filter in chain';
+    const definition = filterDefinition(filter.name);
+    if (!definition) {
+      return `Unknown filter "${filter.name}". Available filters: ${Object.keys(FILTERS).join(', ')}`;
+    }
+    if (filter.args.length > definition.maxArgs) {
+      return `Filter "${filter.name}" takes at most ${definition.maxArgs} argument(s)`;
+    }
+    const invalidNumber = definition.numericArgs
+      ? filter.args.find(arg => !/^\d+$/.test(arg))
+      : undefined;
+    if (invalidNumber !== undefined) {
+      return `Filter "${filter.name}" expects a whole number, got "${invalidNumber}"`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Applies a validated filter chain to a value, left to right.
+ * @param {VariableValue} value - Value being substituted
+ * @param {FilterCall[]} filters - Filters to apply in order
+ * @returns {VariableValue} Filtered value
+ */
+const applyFilters = (
+  value: VariableValue,
+  filters: FilterCall[]
+): VariableValue =>
+  filters.reduce(
+    (current, filter) =>
+      filterDefinition(filter.name)?.apply(current, filter.args) ?? current,
+    value
+  );
+
+export { parseFilterChain, validateFilters, applyFilters, FILTERS };
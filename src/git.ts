@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Git Sources
+ * Checks out command libraries from git repositories into a local cache,
+ * where they are loaded and watched like any other commands directory.
+ */
+
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type { Logger } from './logger.js';
+import type { GitSource } from './types.js';
+
+type GitSyncOptions = {
+  cacheDir?: string;
+  logger: Logger;
+};
+
+const GIT_SOURCE_KEYS: readonly (keyof GitSource)[] = [
+  'git',
+  'ref',
+  'path',
+  'refresh',
+];
+const DEFAULT_REF = 'HEAD';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Checks one entry of the `sources` config list.
+ * @param {unknown} value - Parsed entry
+ * @param {number} index - Position in the list, for messages
+ * @returns {string[]} Problems found, empty when valid
+ */
+const validateGitSource = (value: unknown, index: number): string[] => {
+  const label = `sources[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${label} must be an object with a "git" repository`];
+  }
+
+  const source = value as Record<string, unknown>;
+  const problems = Object.keys(source)
+    .filter(key => !GIT_SOURCE_KEYS.includes(key as keyof GitSource))
+    .map(key => `${label} has unknown key "${key}"`);
+
+  // Values starting with '-' would be read by git as options
+  if (
+    typeof source.git !== 'string' ||
+    !source.git.trim() ||
+    source.git.startsWith('-')
+  ) {
+    problems.push(`${label}.git must be a repository path or URL`);
+  }
+  if (
+    source.ref !== undefined &&
+    (typeof source.ref !== 'string' ||
+      !source.ref.trim() ||
+      source.ref.startsWith('-'))
+  ) {
+    problems.push(`${label}.ref must be a branch, tag or commit`);
+  }
+  if (
+    source.path !== undefined &&
+    (typeof source.path !== 'string' ||
+      path.isAbsolute(source.path) ||
+      source.path.split(/[\\/]/).includes('..'))
+  ) {
+    problems.push(`${label}.path must be a path inside the repository`);
+  }
+  if (
+    source.refresh !== undefined &&
+    !(typeof source.refresh === 'number' && source.refresh >= 0)
+  ) {
+    problems.push(`${label}.refresh must be a number of seconds`);
+  }
+  return problems;
+};
+
+/**
+ * Whether a repository is given as a local path rather than a URL such as
+ * `https://...`, `file://...` or `git@host:repo`.
+ * @param {string} repository - The `git` value of a source
+ * @returns {boolean} True for local paths
+ */
+const isLocalRepository = (repository: string): boolean =>
+  !/^[a-z][a-z0-9+.-]*:\/\//i.test(repository) &&
+  !/^[^/\\]+@[^/\\]+:/.test(repository);
+
+/**
+ * The cache directory for checkouts, honoring XDG_CACHE_HOME.
+ * @returns {string} Absolute directory path
+ */
+const defaultCacheDir = (): string =>
+  path.join(
+    process.env.XDG_CACHE_HOME ?? path.join(os.homedir(), '.cache'),
+    'cursor-command-publisher'
+  );
+
+/**
+ * Where a source is checked out. Each repository and ref gets its own
+ * directory, named after the repository so it is recognizable.
+ * @param {GitSource} source - Git source
+ * @param {string} cacheDir - Cache root
+ * @returns {string} Checkout directory
+ */
+const checkoutDirFor = (source: GitSource, cacheDir: string): string => {
+  const ref = source.ref ?? DEFAULT_REF;
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${source.git}\0${ref}`)
+    .digest('hex')
+    .slice(0, 12);
+  const name = path.basename(source.git.replace(/[/\\]+$/, ''), '.git');
+  return path.join(cacheDir, 'git', `${name}-${hash}`);
+};
+
+/**
+ * The directory holding a source's templates: its `path` inside the
+ * checkout. It only exists once the source has been synced.
+ * @param {GitSource} source - Git source
+ * @param {string} [cacheDir] - Cache root
+ * @returns {string} Commands directory
+ */
+const gitSourceDirectory = (
+  source: GitSource,
+  cacheDir: string = defaultCacheDir()
+): string => path.join(checkoutDirFor(source, cacheDir), source.path ?? '');
+
+/**
+ * Runs git and returns its output.
+ * @throws {Error} With git's error output if the command fails
+ */
+const runGit = async (args: string[], cwd?: string): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout;
+  } catch (error) {
+    const { stderr, message } = error as { stderr?: string; message: string };
+    throw new Error(`git ${args[0]} failed: ${(stderr ?? message).trim()}`);
+  }
+};
+
+/**
+ * Clones a source on first use, then fetches its ref and checks it out,
+ * replacing the previous checkout. The git directory is kept next to the
+ * checkout, so only the repository's files are watched.
+ * @param {GitSource} source - Git source
+ * @param {string} [cacheDir] - Cache root
+ * @returns {Promise<string>} Commands directory of the source
+ * @throws {Error} If the repository or ref cannot be fetched
+ */
+const syncGitSource = async (
+  source: GitSource,
+  cacheDir: string = defaultCacheDir()
+): Promise<string> => {
+  const checkout = checkoutDirFor(source, cacheDir);
+  const cloned = await fs
+    .stat(path.join(checkout, '.git'))
+    .then(() => true)
+    .catch(() => false);
+
+  if (!cloned) {
+    await fs.mkdir(path.dirname(checkout), { recursive: true });
+    await fs.rm(checkout, { recursive: true, force: true });
+    await fs.rm(`${checkout}.git`, { recursive: true, force: true });
+    await runGit([
+      'clone',
+      '--quiet',
+      '--no-checkout',
+      '--separate-git-dir',
+      `${checkout}.git`,
+      '--end-of-options',
+      source.git,
+      checkout,
+    ]);
+  }
+
+  await runGit(
+    [
+      'fetch',
+      '--quiet',
+      '--end-of-options',
+      'origin',
+      source.ref ?? DEFAULT_REF,
+    ],
+    checkout
+  );
+  await runGit(
+    [
+      'checkout',
+      '--quiet',
+      '--force',
+      '--detach',
+      // checkout rejects --end-of-options; its only argument is constant
+      'FETCH_HEAD',
+      '--',
+    ],
+    checkout
+  );
+  return gitSourceDirectory(source, cacheDir);
+};
+
+/**
+ * Keeps git sources up to date while the server runs. Each source is
+ * fetched on start, and again every `refresh` seconds when set. Failures
+ * are logged and the previous checkout stays in place.
+ * @param {GitSource[]} sources - Git sources from the config
+ * @param {GitSyncOptions} options - Cache root and logger
+ * @returns {Object} Sync controller with start, refresh and stop methods
+ */
+const createGitSync = (sources: GitSource[], options: GitSyncOptions) => {
+  const { cacheDir = defaultCacheDir(), logger } = options;
+  const timers: ReturnType<typeof setInterval>[] = [];
+  // Syncs in progress, so a slow fetch is never run twice at once
+  const pending: Map<GitSource, Promise<boolean>> = new Map();
+
+  /**
+   * Syncs one source, reusing a sync that is already running.
+   * @returns {Promise<boolean>} Whether the sync succeeded
+   */
+  const sync = (source: GitSource): Promise<boolean> => {
+    const running = pending.get(source);
+    if (running) return running;
+
+    const promise = syncGitSource(source, cacheDir)
+      .then(() => true)
+      .catch(error => {
+        logger.error(
+          `Failed to sync ${source.git}:`,
+          error instanceof Error ? error.message : error
+        );
+        return false;
+      })
+      .finally(() => pending.delete(source));
+    pending.set(source, promise);
+    return promise;
+  };
+
+  /**
+   * Syncs every source now.
+   * @returns {Promise<number>} Number of sources that failed
+   */
+  const refresh = async (): Promise<number> => {
+    const results = await Promise.all(sources.map(sync));
+    return results.filter(ok => !ok).length;
+  };
+
+  /**
+   * Syncs every source, then schedules the periodic refreshes.
+   * @returns {Promise<void>}
+   */
+  const start = async (): Promise<void> => {
+    await refresh();
+    sources
+      .filter(source => source.refresh)
+      .forEach(source => {
+        timers.push(
+          setInterval(() => sync(source), (source.refresh ?? 0) * 1000)
+        );
+      });
+  };
+
+  /**
+   * Cancels the periodic refreshes and waits for running syncs.
+   * @returns {Promise<void>}
+   */
+  const stop = async (): Promise<void> => {
+    timers.splice(0).forEach(timer => clearInterval(timer));
+    await Promise.all(pending.values());
+  };
+
+  return { start, refresh, stop } as const;
+};
+
+export {
+  createGitSync,
+  syncGitSource,
+  gitSourceDirectory,
+  validateGitSource,
+  isLocalRepository,
+  defaultCacheDir,
+};
+export type { GitSyncOptions };
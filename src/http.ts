@@ -0,0 +1,140 @@
+/**
+ * @fileoverview HTTP Transport
+ * Serves MCP sessions over Server-Sent Events, so one long-running
+ * publisher can be shared by several clients on the same machine.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { Logger } from './logger.js';
+
+type HttpOptions = {
+  port: number;
+  host?: string;
+};
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const LOCAL_HOSTNAMES = ['127.0.0.1', 'localhost', '[::1]'];
+
+/**
+ * Whether a request comes from this machine rather than a web page that
+ * re-pointed its own domain at localhost (DNS rebinding). The Host header
+ * must name localhost and the server's port, and the Origin header, which
+ * browsers send with cross-origin requests, must be local when present.
+ * @param {http.IncomingMessage} req - Incoming request
+ * @param {number} port - Port the server is bound to
+ * @returns {boolean} True for requests to serve
+ */
+const isLocalRequest = (req: http.IncomingMessage, port: number): boolean => {
+  const { host, origin } = req.headers;
+  if (
+    !host ||
+    !LOCAL_HOSTNAMES.some(hostname => host === `${hostname}:${port}`)
+  ) {
+    return false;
+  }
+  if (origin === undefined) return true;
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Starts an HTTP server where each `GET /sse` opens a new MCP session and
+ * `POST /messages?sessionId=...` delivers that session's client messages.
+ * Requests that do not address localhost are rejected with 403.
+ * @param {HttpOptions} options - Port (0 picks a free one) and host, localhost by default
+ * @param {(transport: Transport) => Promise<void>} connect - Connects a session's transport to an MCP server
+ * @param {Logger} logger - Receives connection errors
+ * @returns {Promise<http.Server>} The listening server
+ * @throws {Error} If the port cannot be bound
+ */
+const listenHttp = async (
+  options: HttpOptions,
+  connect: (transport: Transport) => Promise<void>,
+  logger: Logger
+): Promise<http.Server> => {
+  const transports: Map<string, SSEServerTransport> = new Map();
+
+  const httpServer = http.createServer((req, res) => {
+    const { port } = httpServer.address() as AddressInfo;
+    if (!isLocalRequest(req, port)) {
+      res.writeHead(403).end('Forbidden');
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(
+      req.url ?? '/',
+      'http://localhost'
+    );
+
+    if (req.method === 'GET' && pathname === SSE_PATH) {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      transports.set(transport.sessionId, transport);
+      res.on('close', () => transports.delete(transport.sessionId));
+      connect(transport).catch(error => {
+        logger.error('Failed to connect client:', error);
+        res.end();
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === MESSAGES_PATH) {
+      const transport = transports.get(searchParams.get('sessionId') ?? '');
+      if (!transport) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+      // Responds to the request itself, including on errors
+      transport.handlePostMessage(req, res).catch(error => {
+        logger.error('Failed to handle message:', error);
+      });
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host ?? DEFAULT_HOST, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  return httpServer;
+};
+
+/**
+ * Stops accepting connections and ends open SSE streams.
+ * @param {http.Server} httpServer - Server returned by listenHttp
+ * @returns {Promise<void>}
+ */
+const closeHttp = (httpServer: http.Server): Promise<void> =>
+  new Promise(resolve => {
+    httpServer.close(() => resolve());
+    httpServer.closeAllConnections();
+  });
+
+/**
+ * The URL clients connect to, once the server is listening.
+ * @param {http.Server} httpServer - Server returned by listenHttp
+ * @returns {string | undefined} SSE endpoint URL
+ */
+const sseUrl = (httpServer: http.Server): string | undefined => {
+  const address = httpServer.address() as AddressInfo | null;
+  if (!address) return undefined;
+  const host =
+    address.family === 'IPv6' ? `[${address.address}]` : address.address;
+  return `http://${host}:${address.port}${SSE_PATH}`;
+};
+
+export { listenHttp, closeHttp, sseUrl, DEFAULT_PORT };
+export type { HttpOptions };
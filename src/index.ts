@@ -5,48 +5,65 @@
  * Dynamically loads and executes command templates from markdown files.
  */
 
-import path from 'path';
-import os from 'os';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  isCliCommand,
+  parseServerArgs,
+  reportCliError,
+  resolveConfig,
+  runCli,
+} from './cli.js';
+import { createGitSync } from './git.js';
+import { DEFAULT_PORT } from './http.js';
+import { createLogger } from './logger.js';
 import { createCommandServer } from './server.js';
 
 /**
- * Initializes and starts the MCP Command Server.
+ * Initializes and starts the MCP Command Server, or runs a CLI subcommand
+ * such as `lint` when one is given.
  * @returns {Promise<void>}
- * @throws {Error} Fatal errors logged to stderr with process exit
+ * Startup failures, such as an invalid config file or flag, are reported
+ * like subcommand failures: usage and exit code 2 for invalid flags,
+ * otherwise the message and exit code 1.
  */
 const main = async (): Promise<void> => {
   try {
-    const commandsDirs: string[] = [];
-
-    // Check COMMANDS_DIR env var (comma-separated paths) or use defaults
-    if (process.env.COMMANDS_DIR) {
-      const dirs = process.env.COMMANDS_DIR.split(',')
-        .map(dir => dir.trim())
-        .filter(dir => dir.length > 0);
-      commandsDirs.push(...dirs);
-    } else {
-      const globalDir = path.join(os.homedir(), '.cursor/published');
-      const projectDir = path.join(process.cwd(), '.cursor/published');
-      commandsDirs.push(globalDir, projectDir);
+    const argv = process.argv.slice(2);
+    if (isCliCommand(argv[0])) {
+      process.exitCode = await runCli(argv);
+      return;
     }
 
-    console.error(`Watching directories:`);
-    commandsDirs.forEach(dir => console.error(`  - ${dir}`));
+    // Flags override COMMANDS_* variables, which override config files
+    const config = await resolveConfig(parseServerArgs(argv));
+    const logger = createLogger(config.logLevel);
+
+    logger.info(`Watching directories:`);
+    config.directories.forEach(dir => logger.info(`  - ${dir}`));
 
-    const server = createCommandServer(commandsDirs);
-    const transport = new StdioServerTransport();
+    // Check out git sources before the initial scan
+    const gitSync = createGitSync(config.sources ?? [], { logger });
+    await gitSync.start();
 
-    await server.start(transport);
+    const server = createCommandServer(config.directories, {
+      ...config,
+      logger,
+    });
+    if (config.transport === 'http') {
+      await server.start({ port: config.port ?? DEFAULT_PORT });
+      logger.info(`Listening on ${server.url()}`);
+    } else {
+      await server.start(new StdioServerTransport());
+    }
 
     // Graceful shutdown on SIGINT
     process.on('SIGINT', async () => {
+      await gitSync.stop();
       await server.stop();
       process.exit(0);
     });
   } catch (error) {
-    console.error('Fatal error:', error);
-    process.exit(1);
+    process.exit(reportCliError(error));
   }
 };
 
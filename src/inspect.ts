@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Registry Inspection
+ * Summaries of the resolved command registry for the `list` and `inspect`
+ * subcommands: which file won each name, and what a command accepts.
+ */
+
+import { formatDiagnostic } from './diagnostics.js';
+import { createPartialResolver } from './partials.js';
+import {
+  loadAllCommands,
+  selectCommands,
+  toPromptArguments,
+} from './registry.js';
+import type { PromptArgument } from './registry.js';
+import type {
+  ASTNode,
+  Condition,
+  Diagnostic,
+  ParsedTemplate,
+  RegisteredTool,
+  ScanOptions,
+  VariableType,
+} from './types.js';
+
+type CommandSummary = {
+  name: string;
+  title?: string;
+  filePath: string;
+  description: string;
+  tags: string[];
+  variables: { name: string; type: VariableType; required: boolean }[];
+  shadowed: string[];
+};
+
+type Inspection = {
+  name: string;
+  title?: string;
+  filePath: string;
+  description: string;
+  tags: string[];
+  inputSchema: ParsedTemplate['inputSchema'];
+  promptArguments: PromptArgument[];
+  includes: string[];
+  parents: string[];
+  outline: string[];
+  diagnostics: Diagnostic[];
+};
+
+/**
+ * Loads the registry and summarizes each command, including the files it
+ * shadows in earlier directories.
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ScanOptions} [options] - Subdirectory depth, name separator and precedence
+ * @returns {Promise<CommandSummary[]>} Commands sorted by name
+ */
+const listCommands = async (
+  commandsDirs: string[],
+  options: ScanOptions = {}
+): Promise<CommandSummary[]> => {
+  const all = await loadAllCommands(
+    commandsDirs,
+    createPartialResolver(commandsDirs),
+    options
+  );
+  const tools = selectCommands(all, commandsDirs, options);
+
+  return Array.from(tools.values())
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(tool => ({
+      name: tool.name,
+      ...(tool.title && { title: tool.title }),
+      filePath: tool.filePath,
+      description: tool.description,
+      tags: tool.tags,
+      variables: tool.parsed.vars.map(variable => ({
+        name: variable.name,
+        type: variable.schema.type,
+        required: !variable.optional,
+      })),
+      shadowed: all
+        .filter(
+          other => other.name === tool.name && other.filePath !== tool.filePath
+        )
+        .map(other => other.filePath),
+    }));
+};
+
+/**
+ * Formats command summaries as an aligned table, followed by a line for
+ * each name defined in more than one directory.
+ * @param {CommandSummary[]} commands - Summaries from listCommands
+ * @returns {string} Table text
+ */
+const formatCommandTable = (commands: CommandSummary[]): string => {
+  if (!commands.length) return 'No commands found';
+
+  const rows = [
+    ['NAME', 'VARIABLES', 'SOURCE', 'DESCRIPTION'],
+    ...commands.map(command => [
+      command.name,
+      command.variables
+        .map(variable => `${variable.name}${variable.required ? '' : '?'}`)
+        .join(', ') || '-',
+      command.filePath,
+      command.description,
+    ]),
+  ];
+  const widths = [0, 1, 2].map(column =>
+    Math.max(...rows.map(row => row[column]?.length ?? 0))
+  );
+  const table = rows.map(row =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+      .join('  ')
+      .trimEnd()
+  );
+  const overrides = commands.flatMap(command =>
+    command.shadowed.map(
+      shadowed => `${command.name}: ${command.filePath} overrides ${shadowed}`
+    )
+  );
+
+  return [...table, ...(overrides.length ? ['', ...overrides] : [])].join('\n');
+};
+
+/**
+ * Collects everything the server would advertise for a command.
+ * @param {RegisteredTool} tool - Registered tool
+ * @returns {Inspection} Schema, prompt arguments, dependencies and outline
+ */
+const inspectCommand = (tool: RegisteredTool): Inspection => ({
+  name: tool.name,
+  ...(tool.title && { title: tool.title }),
+  filePath: tool.filePath,
+  description: tool.description,
+  tags: tool.tags,
+  inputSchema: tool.parsed.inputSchema,
+  promptArguments: toPromptArguments(tool),
+  includes: tool.parsed.includes,
+  parents: tool.parsed.parents,
+  outline: outlineAST(tool.parsed.ast),
+  diagnostics: tool.parsed.diagnostics,
+});
+
+/**
+ * Summarizes an AST as indented lines, one per node.
+ * @param {ASTNode[]} ast - Template AST
+ * @param {string} [indent] - Prefix for nested nodes
+ * @returns {string[]} Outline lines
+ */
+const outlineAST = (ast: ASTNode[], indent = ''): string[] =>
+  ast.flatMap(node => {
+    if (typeof node === 'string') {
+      return [`${indent}text (${node.length} chars)`];
+    }
+
+    const nested = (nodes: ASTNode[]) => outlineAST(nodes, `${indent}  `);
+    const alternate = (nodes?: ASTNode[]) =>
+      nodes ? [`${indent}else`, ...nested(nodes)] : [];
+
+    switch (node.type) {
+      case 'placeholder':
+      case 'loop-variable': {
+        const name = node.type === 'placeholder' ? node.name : `@${node.name}`;
+        const filters = (node.filters ?? []).map(filter =>
+          [` | ${filter.name}`, ...filter.args].join(' ')
+        );
+        return [`${indent}#{${name}${filters.join('')}}`];
+      }
+      case 'block':
+      case 'negated': {
+        const keyword = node.type === 'block' ? 'if' : 'unless';
+        return [
+          `${indent}${keyword} ${formatCondition(node.variable, node.condition)}`,
+          ...nested(node.content),
+          ...alternate(node.alternate),
+        ];
+      }
+      case 'loop':
+        return [
+          `${indent}each ${node.variable}`,
+          ...nested(node.content),
+          ...alternate(node.alternate),
+        ];
+      default:
+        return [`${indent}section ${node.name}`, ...nested(node.content)];
+    }
+  });
+
+const formatCondition = (variable: string, condition?: Condition): string =>
+  condition
+    ? `${variable} ${condition.operator} ${JSON.stringify(condition.value)}`
+    : variable;
+
+/**
+ * Formats an inspection for the terminal.
+ * @param {Inspection} inspection - Result of inspectCommand
+ * @returns {string} Multi-section report
+ */
+const formatInspection = (inspection: Inspection): string => {
+  const list = (items: string[]) =>
+    items.length ? items.map(item => `  ${item}`) : ['  (none)'];
+
+  const promptArguments = inspection.promptArguments.map(argument => {
+    const details = [
+      argument.required ? 'required' : 'optional',
+      ...(argument.default !== undefined
+        ? [`default: ${JSON.stringify(argument.default)}`]
+        : []),
+    ];
+    return `- ${argument.name} (${details.join(', ')}): ${argument.description}`;
+  });
+
+  return [
+    `${inspection.name} (${inspection.filePath})`,
+    ...(inspection.title ? [`Title: ${inspection.title}`] : []),
+    `Description: ${inspection.description}`,
+    ...(inspection.tags.length ? [`Tags: ${inspection.tags.join(', ')}`] : []),
+    '',
+    'Input schema:',
+    ...JSON.stringify(inspection.inputSchema, null, 2)
+      .split('\n')
+      .map(line => `  ${line}`),
+    '',
+    'Prompt arguments:',
+    ...list(promptArguments),
+    '',
+    'Includes:',
+    ...list(inspection.includes),
+    '',
+    'Extends:',
+    ...list(inspection.parents),
+    '',
+    'Template outline:',
+    ...list(inspection.outline),
+    '',
+    'Diagnostics:',
+    ...list(
+      inspection.diagnostics.map(diagnostic =>
+        formatDiagnostic(diagnostic, inspection.filePath)
+      )
+    ),
+  ].join('\n');
+};
+
+export { listCommands, formatCommandTable, inspectCommand, formatInspection };
+export type { CommandSummary, Inspection };
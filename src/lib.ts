@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Library Entry Point
+ * The package's public API for embedding the publisher in other programs.
+ * Importing it has no side effects: nothing is read, watched or started
+ * until a function is called. The command line entry point is index.ts.
+ */
+
+export { createCommandServer } from './server.js';
+export type {
+  CommandServer,
+  CommandServerEvents,
+  ServerOptions,
+} from './server.js';
+export { parseTemplate, renderTemplate } from './parser.js';
+export { createMemorySource, isTemplateSource } from './sources.js';
+export type { MemorySourceOptions, TemplateSource } from './sources.js';
+export { createCommandWatcher } from './watcher.js';
+export type {
+  FileChangeEvent,
+  FileChangeHandler,
+  WatcherEvent,
+  WatcherOptions,
+} from './watcher.js';
+export { createPartialResolver } from './partials.js';
+export { loadCommands } from './registry.js';
+export { validateArguments, formatIssues } from './validator.js';
+export { resolveConfig } from './cli.js';
+export type { ResolvedConfig } from './cli.js';
+export { createLogger } from './logger.js';
+export type { Logger } from './logger.js';
+export type { HttpOptions } from './http.js';
+export type {
+  Diagnostic,
+  ExposeMode,
+  GitSource,
+  LogLevel,
+  ParsedTemplate,
+  ParseOptions,
+  PublisherConfig,
+  RegisteredTool,
+  ScanOptions,
+  TemplateArguments,
+  TemplateMetadata,
+  TransportMode,
+} from './types.js';
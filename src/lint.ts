@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Commands Directory Linting
+ * Parses every template the server would load and collects its diagnostics,
+ * plus naming problems that only show up across files.
+ */
+
+import fs from 'fs/promises';
+import { createDiagnostic, formatDiagnostic } from './diagnostics.js';
+import { parseTemplate } from './parser.js';
+import { createPartialResolver } from './partials.js';
+import { isValidToolName, listCommandFiles } from './registry.js';
+import type { Diagnostic, ScanOptions } from './types.js';
+
+type LintedFile = {
+  filePath: string;
+  toolName: string;
+  diagnostics: Diagnostic[];
+};
+
+type LintReport = {
+  files: LintedFile[];
+  errorCount: number;
+  warningCount: number;
+};
+
+/**
+ * Lints the command files of each commands directory, resolving includes
+ * and parents the same way the server does. Missing directories are
+ * skipped.
+ * @param {string[]} commandsDirs - Directories to lint, in server precedence order
+ * @param {ScanOptions} [options] - Subdirectory depth and name separator
+ * @returns {Promise<LintReport>} Diagnostics per file with totals
+ */
+const lintCommands = async (
+  commandsDirs: string[],
+  options: ScanOptions = {}
+): Promise<LintReport> => {
+  const resolvePartial = createPartialResolver(commandsDirs);
+  const files: LintedFile[] = [];
+  const seenNames = new Map<string, string>();
+
+  for (const file of await listCommandFiles(commandsDirs, options)) {
+    const { filePath } = file;
+    const content = await fs.readFile(filePath, 'utf-8');
+    const { name, diagnostics } = lintTemplate(
+      content,
+      filePath,
+      resolvePartial
+    );
+    const toolName = name ?? file.toolName;
+    const at = { content, offset: 0, source: filePath };
+
+    if (!isValidToolName(toolName)) {
+      diagnostics.unshift(
+        createDiagnostic(
+          'error',
+          'invalid-name',
+          `Tool name "${toolName}" must be 1-64 letters, digits, "_", "-" or "."`,
+          at
+        )
+      );
+    }
+    const previous = seenNames.get(toolName);
+    if (previous) {
+      diagnostics.unshift(
+        createDiagnostic(
+          'warning',
+          'duplicate-name',
+          `Tool name "${toolName}" is also defined by ${previous}`,
+          at
+        )
+      );
+    } else {
+      seenNames.set(toolName, filePath);
+    }
+
+    files.push({ filePath, toolName, diagnostics });
+  }
+
+  const all = files.flatMap(file => file.diagnostics);
+  return {
+    files,
+    errorCount: all.filter(item => item.severity === 'error').length,
+    warningCount: all.filter(item => item.severity === 'warning').length,
+  };
+};
+
+/**
+ * Parses one template, turning a thrown parse error into a diagnostic.
+ * Also returns the frontmatter `name`, if the template sets one.
+ */
+const lintTemplate = (
+  content: string,
+  filePath: string,
+  resolvePartial: ReturnType<typeof createPartialResolver>
+): { name?: string; diagnostics: Diagnostic[] } => {
+  try {
+    const { metadata, diagnostics } = parseTemplate(content, {
+      id: filePath,
+      resolvePartial,
+    });
+    return { ...(metadata.name && { name: metadata.name }), diagnostics };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      diagnostics: [
+        createDiagnostic('error', 'parse-error', message, {
+          content,
+          offset: 0,
+          source: filePath,
+        }),
+      ],
+    };
+  }
+};
+
+/**
+ * Formats a lint report for the terminal, one diagnostic per line
+ * followed by a summary.
+ * @param {LintReport} report - Report from lintCommands
+ * @returns {string} Human-readable report
+ */
+const formatLintReport = (report: LintReport): string => {
+  const lines = report.files.flatMap(file =>
+    file.diagnostics.map(diagnostic =>
+      formatDiagnostic(diagnostic, file.filePath)
+    )
+  );
+  const summary = `${report.files.length} file(s) checked: ${report.errorCount} error(s), ${report.warningCount} warning(s)`;
+  return [...lines, summary].join('\n');
+};
+
+export { lintCommands, formatLintReport };
+export type { LintedFile, LintReport };
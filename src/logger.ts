@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Leveled Logging
+ * Server messages go to stderr, since stdout carries the MCP protocol.
+ */
+
+import type { LogLevel } from './types.js';
+
+type Logger = {
+  error: (..._args: unknown[]) => void;
+  warn: (..._args: unknown[]) => void;
+  info: (..._args: unknown[]) => void;
+};
+
+const LOG_LEVELS: readonly LogLevel[] = ['silent', 'error', 'warn', 'info'];
+
+/**
+ * Creates a logger that drops messages below the given level.
+ * @param {LogLevel} [level] - Most verbose level to print, `info` by default
+ * @returns {Logger} Logger writing to stderr
+ */
+const createLogger = (level: LogLevel = 'info'): Logger => {
+  const enabled = (messageLevel: LogLevel) =>
+    LOG_LEVELS.indexOf(messageLevel) <= LOG_LEVELS.indexOf(level);
+
+  return {
+    error: (...args) => {
+      if (enabled('error')) console.error(...args);
+    },
+    warn: (...args) => {
+      if (enabled('warn')) console.warn(...args);
+    },
+    info: (...args) => {
+      if (enabled('info')) console.error(...args);
+    },
+  };
+};
+
+export { createLogger, LOG_LEVELS };
+export type { Logger };
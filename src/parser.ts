@@ -4,49 +4,410 @@
  * Only placeholders defined in frontmatter are treated as variables.
  */
 
-import YAML from 'yaml';
+import YAML, { YAMLParseError } from 'yaml';
+import { evaluateCondition, parseCondition } from './conditions.js';
+import { createDiagnostic } from './diagnostics.js';
+import { applyFilters, parseFilterChain, validateFilters } from './filters.js';
+import { coerceArray } from './validator.js';
 import type {
   ParsedTemplate,
+  ParseOptions,
   Placeholder,
   ASTNode,
+  Condition,
   ConditionalBlock,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  NegatedBlock,
+  LoopBlock,
+  LoopVariable,
+  SectionBlock,
+  ItemsSchema,
+  PropertySchema,
+  ScalarType,
+  ScalarValue,
+  TemplateArguments,
+  TemplateMetadata,
+  VariableSchema,
+  VariableType,
+  VariableValue,
 } from './types.js';
 
-const PLACEHOLDER_PATTERN = /#\{(\?|\/)?([^}?]*?)(\?)?}/g;
+type FrontmatterEntry = {
+  value: string;
+  optional: boolean;
+  schema: VariableSchema;
+};
+
+type Frontmatter = Record<string, FrontmatterEntry>;
+
+type ExtractedTemplate = {
+  frontmatter: Frontmatter;
+  metadataValues: Record<string, unknown>;
+  namespaced: boolean;
+  body: string;
+  bodyOffset: number;
+  parent?: string;
+};
+
+type TemplateLevel = ExtractedTemplate & {
+  id?: string;
+  content: string;
+};
+
+type IncludeContext = {
+  resolvePartial?: ParseOptions['resolvePartial'];
+  stack: string[];
+  includes: Set<string>;
+  overrides: Map<string, ASTNode[]>;
+  diagnostics: Diagnostic[];
+};
+
+const PLACEHOLDER_PATTERN = /#\{(\?|\/|!|:|\*|>|#)?([^}?]*?)(\?)?}/g;
 const FRONTMATTER_PATTERN = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
+const SCALAR_TYPES: readonly ScalarType[] = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+];
+const VARIABLE_TYPES: readonly VariableType[] = [...SCALAR_TYPES, 'array'];
+const METADATA_KEYS: readonly (keyof TemplateMetadata)[] = [
+  'name',
+  'title',
+  'description',
+  'tags',
+];
+const DECLARATION_KEYS = [
+  'type',
+  'description',
+  'enum',
+  'items',
+  'minimum',
+  'maximum',
+  'pattern',
+  'default',
+];
+const LOOP_VARIABLES: readonly LoopVariable['name'][] = [
+  'item',
+  'index',
+  'number',
+];
 
 /**
  * Parses a markdown template and extracts #{name} placeholders.
+ * Includes (#{>name}) are inlined and `extends` parents are resolved via
+ * `options.resolvePartial` when provided. A child template's #{#name} sections
+ * replace the parent's sections of the same name.
+ * Problems such as unclosed blocks, undeclared placeholders, unused variables,
+ * invalid filters and YAML errors are returned as `diagnostics` rather than
+ * thrown.
  * @param {string} content - Full markdown content with optional YAML frontmatter
- * @returns {ParsedTemplate} Parsed template with AST, variables list, and JSON schema
- * @throws {Error} If YAML parsing fails (gracefully falls back to empty frontmatter)
+ * @param {ParseOptions} [options] - Template id and partial resolver for includes
+ * @returns {ParsedTemplate} Parsed template with AST, variables list, JSON schema and diagnostics
  */
-const parseTemplate = (content: string): ParsedTemplate => {
-  const { frontmatter, body } = extractFrontmatter(content);
-  const { ast, variables } = buildASTFromBody(body, frontmatter);
-  const inputSchema = buildJSONSchema(variables);
+const parseTemplate = (
+  content: string,
+  options: ParseOptions = {}
+): ParsedTemplate => {
+  const context: IncludeContext = {
+    resolvePartial: options.resolvePartial,
+    stack: options.id ? [options.id] : [],
+    includes: new Set(),
+    overrides: new Map(),
+    diagnostics: [],
+  };
+  const root: TemplateLevel = {
+    id: options.id,
+    content,
+    ...extractFrontmatter(content, options.id, context.diagnostics),
+  };
+  const declared = Object.keys(root.frontmatter);
+
+  const { ast, variables, parents } = root.parent
+    ? buildInheritedAST(root, context)
+    : { ...buildASTFromBody(root.frontmatter, context, root), parents: [] };
+
+  const metadata = extractMetadata(
+    root.metadataValues,
+    root.namespaced ? [] : variables
+  );
+  reportUnusedVariables(
+    root.namespaced ? declared : declared.filter(key => !(key in metadata)),
+    variables,
+    root,
+    context.diagnostics
+  );
 
   return {
     ast,
     vars: variables,
     template: content,
-    inputSchema,
+    inputSchema: buildJSONSchema(variables),
+    includes: Array.from(context.includes),
+    parents,
+    diagnostics: uniqueDiagnostics(context.diagnostics),
+    metadata,
   };
 };
 
+/**
+ * Builds the AST of a template that `extends` a parent.
+ */
+const buildInheritedAST = (
+  root: TemplateLevel,
+  context: IncludeContext
+): { ast: ASTNode[]; variables: Placeholder[]; parents: string[] } => {
+  const ancestors = resolveAncestors(root, context);
+  const parents = ancestors.map(ancestor => ancestor.id);
+  const levels = [root, ...ancestors];
+
+  // Declarations closer to the child take precedence
+  const merged: Frontmatter = Object.assign(
+    {},
+    ...[...levels].reverse().map(level => level.frontmatter)
+  );
+  const seenVariables = new Map<string, Placeholder>();
+  const levelContext = { ...context, stack: [...context.stack, ...parents] };
+
+  // Build from the child up: each level's sections (with overrides from
+  // below already applied) override the sections of the level above it.
+  // The root ancestor's AST is the final template.
+  let ast: ASTNode[] = [];
+  for (const level of levels) {
+    const result = buildASTFromBody(merged, levelContext, level);
+    result.variables
+      .filter(variable => !seenVariables.has(variable.name))
+      .forEach(variable => seenVariables.set(variable.name, variable));
+    levelContext.overrides = new Map([
+      ...levelContext.overrides,
+      ...collectSections(result.ast),
+    ]);
+    ({ ast } = result);
+  }
+
+  // Only variables that survive into the final AST belong in the schema
+  const variables = withFinalSchemas(
+    referencedVariables(ast)
+      .map(name => seenVariables.get(name))
+      .filter((variable): variable is Placeholder => !!variable),
+    merged
+  );
+
+  return { ast, variables, parents };
+};
+
+/**
+ * Reads the reserved `name`, `title`, `description` and `tags` keys.
+ * In flat frontmatter, a reserved key the template uses as a variable
+ * stays a variable, so existing templates with e.g. a `#{title}`
+ * placeholder keep working.
+ */
+const extractMetadata = (
+  values: Record<string, unknown>,
+  variables: Placeholder[]
+): TemplateMetadata => {
+  const used = new Set(variables.map(variable => variable.name));
+  const metadata: TemplateMetadata = {};
+
+  Object.entries(values)
+    .filter(([key, value]) => !used.has(key) && value !== null)
+    .forEach(([key, value]) => {
+      if (key === 'tags') {
+        const tags = (Array.isArray(value) ? value : String(value).split(','))
+          .map(tag => String(tag).trim())
+          .filter(Boolean);
+        if (tags.length) metadata.tags = tags;
+        return;
+      }
+      const text = String(value).trim();
+      if (text) metadata[key as Exclude<keyof TemplateMetadata, 'tags'>] = text;
+    });
+
+  return metadata;
+};
+
+/**
+ * Resolves the chain of parent templates named by `extends`, nearest first.
+ * Stops with a diagnostic at an unresolved or circular parent.
+ */
+const resolveAncestors = (
+  child: TemplateLevel,
+  context: IncludeContext
+): (TemplateLevel & { id: string })[] => {
+  const ancestors: (TemplateLevel & { id: string })[] = [];
+  const stack = [...context.stack];
+  let current = child;
+
+  while (current.parent) {
+    const name = current.parent;
+    const report = (code: DiagnosticCode, message: string) =>
+      context.diagnostics.push(
+        createDiagnostic('error', code, message, {
+          content: current.content,
+          offset: declarationOffset(current, 'extends'),
+          source: current.id,
+        })
+      );
+
+    const resolved = context.resolvePartial?.(name);
+    if (!resolved) {
+      report('unresolved-parent', `Could not resolve parent template ${name}`);
+      break;
+    }
+    if (stack.includes(resolved.id)) {
+      report(
+        'circular-extends',
+        `Circular extends of ${name} (${[...stack, resolved.id].join(' -> ')})`
+      );
+      break;
+    }
+
+    stack.push(resolved.id);
+    const ancestor = {
+      id: resolved.id,
+      content: resolved.content,
+      ...extractFrontmatter(resolved.content, resolved.id, context.diagnostics),
+    };
+    ancestors.push(ancestor);
+    current = ancestor;
+  }
+
+  return ancestors;
+};
+
+/**
+ * Warns about variables declared in a template's own frontmatter that
+ * never appear in the final template.
+ */
+const reportUnusedVariables = (
+  declared: string[],
+  variables: Placeholder[],
+  level: TemplateLevel,
+  diagnostics: Diagnostic[]
+): void => {
+  const used = new Set(variables.map(variable => variable.name));
+  declared
+    .filter(name => !used.has(name))
+    .forEach(name =>
+      diagnostics.push(
+        createDiagnostic(
+          'warning',
+          'unused-variable',
+          `Variable ${name} is declared but never used`,
+          {
+            content: level.content,
+            offset: declarationOffset(level, name),
+            source: level.id,
+          }
+        )
+      )
+    );
+};
+
+/**
+ * Finds the offset of a variable's frontmatter key, or 0 if it is not found.
+ */
+const declarationOffset = (level: TemplateLevel, key: string): number => {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const indent = level.namespaced ? '[ \\t]*' : '';
+  const pattern = new RegExp(`^(${indent})["']?${escaped}\\??["']?\\s*:`, 'm');
+  const match = pattern.exec(level.content.slice(0, level.bodyOffset));
+  return match ? match.index + (match[1]?.length ?? 0) : 0;
+};
+
+/**
+ * Drops repeated diagnostics, e.g. from a partial included twice.
+ */
+const uniqueDiagnostics = (diagnostics: Diagnostic[]): Diagnostic[] =>
+  Array.from(
+    new Map(
+      diagnostics.map(diagnostic => [JSON.stringify(diagnostic), diagnostic])
+    ).values()
+  );
+
+/**
+ * Returns the nested node lists of a block-like node.
+ */
+const childBranches = (node: ASTNode): ASTNode[][] => {
+  if (typeof node === 'string') return [];
+  if (node.type === 'placeholder' || node.type === 'loop-variable') return [];
+  if (node.type === 'section') return [node.content];
+  return node.alternate ? [node.content, node.alternate] : [node.content];
+};
+
+/**
+ * Collects the content of every named section in an AST, first occurrence wins.
+ */
+const collectSections = (
+  ast: ASTNode[],
+  sections = new Map<string, ASTNode[]>()
+): Map<string, ASTNode[]> => {
+  ast.forEach(node => {
+    if (typeof node !== 'string' && node.type === 'section') {
+      if (!sections.has(node.name)) sections.set(node.name, node.content);
+    }
+    childBranches(node).forEach(branch => collectSections(branch, sections));
+  });
+  return sections;
+};
+
+/**
+ * Lists the variable names referenced by an AST, in order of appearance.
+ */
+const referencedVariables = (ast: ASTNode[]): string[] => {
+  const names = ast.flatMap((node): string[] => {
+    if (typeof node === 'string' || node.type === 'loop-variable') return [];
+    if (node.type === 'placeholder') return [node.name];
+    const nested = childBranches(node).flatMap(referencedVariables);
+    return node.type === 'section' ? nested : [node.variable, ...nested];
+  });
+  return Array.from(new Set(names));
+};
+
 /**
  * Builds an AST from the template body, extracting placeholders and blocks defined in frontmatter
  */
 const buildASTFromBody = (
-  body: string,
-  frontmatter: Record<string, { value: string; optional: boolean }>
+  frontmatter: Frontmatter,
+  includeContext: IncludeContext,
+  level: TemplateLevel
 ): { ast: ASTNode[]; variables: Placeholder[] } => {
-  type BlockContext = { variable?: string; content: ASTNode[] };
+  type BlockContext = {
+    kind?: 'block' | 'negated' | 'loop' | 'section';
+    opener?: string;
+    offset?: number;
+    variable?: string;
+    condition?: Condition;
+    content: ASTNode[];
+    alternate?: ASTNode[];
+  };
 
+  const { body } = level;
   const seenVariables = new Map<string, Placeholder>();
   const blockStack: BlockContext[] = [{ content: [] }];
   let lastIndex = 0;
 
+  // Diagnostics are located in the file the body came from
+  const report = (
+    severity: DiagnosticSeverity,
+    code: DiagnosticCode,
+    message: string,
+    index: number
+  ) =>
+    includeContext.diagnostics.push(
+      createDiagnostic(severity, code, message, {
+        content: level.content,
+        offset: level.bodyOffset + index,
+        source: level.id,
+      })
+    );
+
+  // Text after #{:else} goes to the alternate branch
+  const targetOf = (context: BlockContext): ASTNode[] =>
+    context.alternate ?? context.content;
+
   const placeholderMatches = Array.from(body.matchAll(PLACEHOLDER_PATTERN));
 
   // Process each match with handlers
@@ -54,37 +415,131 @@ const buildASTFromBody = (
     const matchStartIndex = match.index ?? 0;
     const matchEndIndex = matchStartIndex + match[0].length;
     const currentContext = blockStack[blockStack.length - 1];
+    const currentTarget = targetOf(currentContext);
 
     // Add preceding text
     const precedingText = body.slice(lastIndex, matchStartIndex);
     if (precedingText) {
-      currentContext.content.push(precedingText);
+      currentTarget.push(precedingText);
     }
 
     const [fullMatch, prefix = '', name = '', suffix = ''] = match;
     const trimmedName = name.trim();
 
-    // Handler for block start: #{?variable}
+    // Handler for block start: #{?variable}, negated #{!variable},
+    // or with a condition such as #{?variable == "value"}
     const handleBlockStart = () => {
-      if (!trimmedName) {
-        currentContext.content.push(fullMatch);
+      const expression = trimmedName ? parseCondition(trimmedName) : undefined;
+      if (!expression) {
+        if (trimmedName) {
+          report(
+            'error',
+            'invalid-condition',
+            `Invalid block condition ${fullMatch}`,
+            matchStartIndex
+          );
+        }
+        currentTarget.push(fullMatch);
         return;
       }
 
-      if (!frontmatter[trimmedName]) {
-        frontmatter[trimmedName] = {
-          value: `Conditional block for ${trimmedName}`,
+      const { variable, condition } = expression;
+      if (!frontmatter[variable]) {
+        frontmatter[variable] = {
+          value: `Conditional block for ${variable}`,
           optional: true,
+          schema: { type: 'string' },
         };
       }
 
-      blockStack.push({ variable: trimmedName, content: [] });
+      blockStack.push({
+        opener: fullMatch,
+        offset: matchStartIndex,
+        variable,
+        condition,
+        kind: prefix === '!' ? 'negated' : 'block',
+        content: [],
+      });
+    };
+
+    // Handler for loop start: #{*variable}
+    const handleLoopStart = () => {
+      if (!trimmedName) {
+        currentTarget.push(fullMatch);
+        return;
+      }
+
+      // Loops iterate over lists, so the variable is always an array
+      const entry = frontmatter[trimmedName];
+      frontmatter[trimmedName] = entry
+        ? { ...entry, schema: toArraySchema(entry.schema) }
+        : {
+            value: `List of items for ${trimmedName}`,
+            optional: true,
+            schema: { type: 'array', items: { type: 'string' } },
+          };
+
+      blockStack.push({
+        opener: fullMatch,
+        offset: matchStartIndex,
+        variable: trimmedName,
+        kind: 'loop',
+        content: [],
+      });
+    };
+
+    // Handler for named section start: #{#name}
+    const handleSectionStart = () => {
+      if (!trimmedName) {
+        currentTarget.push(fullMatch);
+        return;
+      }
+
+      blockStack.push({
+        opener: fullMatch,
+        offset: matchStartIndex,
+        variable: trimmedName,
+        kind: 'section',
+        content: [],
+      });
+    };
+
+    // Handler for else branch: #{:else}
+    const handleElse = () => {
+      if (trimmedName !== 'else') {
+        currentTarget.push(fullMatch);
+        return;
+      }
+      if (
+        !currentContext.variable ||
+        currentContext.kind === 'section' ||
+        currentContext.alternate
+      ) {
+        report(
+          'error',
+          'unexpected-else',
+          currentContext.alternate
+            ? `Second ${fullMatch} in block ${currentContext.opener}`
+            : `${fullMatch} outside of a conditional or loop block`,
+          matchStartIndex
+        );
+        currentTarget.push(fullMatch);
+        return;
+      }
+
+      currentContext.alternate = [];
     };
 
     // Handler for block end: #{/variable} or #{/}
     const handleBlockEnd = () => {
       if (blockStack.length <= 1) {
-        currentContext.content.push(fullMatch);
+        report(
+          'error',
+          'mismatched-block',
+          `Block end ${fullMatch} has no matching block start`,
+          matchStartIndex
+        );
+        currentTarget.push(fullMatch);
         return;
       }
 
@@ -95,62 +550,215 @@ const buildASTFromBody = (
         !closedBlock.variable ||
         (trimmedName && trimmedName !== closedBlock.variable)
       ) {
-        closedBlock.content.push(fullMatch);
+        report(
+          'error',
+          'mismatched-block',
+          `Block end ${fullMatch} does not match ${closedBlock.opener}`,
+          matchStartIndex
+        );
+        currentTarget.push(fullMatch);
         return;
       }
 
       blockStack.pop();
 
-      const block: ConditionalBlock = {
-        type: 'block',
+      // Sections render their own content unless a child overrides them
+      if (closedBlock.kind === 'section') {
+        const section: SectionBlock = {
+          type: 'section',
+          name: closedBlock.variable,
+          content:
+            includeContext.overrides.get(closedBlock.variable) ??
+            closedBlock.content,
+        };
+        targetOf(parentContext).push(section);
+        return;
+      }
+
+      const isLoop = closedBlock.kind === 'loop';
+      const block: ConditionalBlock | NegatedBlock | LoopBlock = {
+        type: closedBlock.kind ?? 'block',
         variable: closedBlock.variable,
+        ...(closedBlock.condition && { condition: closedBlock.condition }),
         content: closedBlock.content,
+        ...(closedBlock.alternate && { alternate: closedBlock.alternate }),
       };
-      parentContext.content.push(block);
+      targetOf(parentContext).push(block);
 
-      // Track variable
+      // Track variable; only loops over declared variables can be required
       if (!seenVariables.has(closedBlock.variable)) {
         const placeholder: Placeholder = {
           type: 'placeholder',
           name: closedBlock.variable,
           description: frontmatter[closedBlock.variable]?.value,
-          optional: true,
+          optional: !isLoop || !!frontmatter[closedBlock.variable]?.optional,
+          schema: frontmatter[closedBlock.variable]?.schema ?? {
+            type: 'string',
+          },
         };
         seenVariables.set(closedBlock.variable, placeholder);
       }
     };
 
-    // Handler for regular placeholder: #{variable} or #{variable?}
+    // Filters after the name, e.g. #{code | indent 4}; only checked once
+    // the placeholder is known to be a variable, so literal text is left alone
+    const { name: variableName, filters } = parseFilterChain(trimmedName);
+    const filterError = validateFilters(filters);
+    const reportInvalidFilter = (): void => {
+      report(
+        'error',
+        'invalid-filter',
+        `${filterError} in ${fullMatch}`,
+        matchStartIndex
+      );
+      currentTarget.push(fullMatch);
+    };
+
+    // Handler for loop variables: #{@item}, #{@index}, #{@number}
+    const handleLoopVariable = () => {
+      const loopName = variableName.slice(1) as LoopVariable['name'];
+      const isInLoop = blockStack.some(context => context.kind === 'loop');
+
+      if (!isInLoop || !LOOP_VARIABLES.includes(loopName)) {
+        report(
+          'warning',
+          'unknown-loop-variable',
+          isInLoop
+            ? `Unknown loop variable ${fullMatch}`
+            : `${fullMatch} used outside of a loop block`,
+          matchStartIndex
+        );
+        currentTarget.push(fullMatch);
+        return;
+      }
+      if (filterError) {
+        reportInvalidFilter();
+        return;
+      }
+
+      currentTarget.push({
+        type: 'loop-variable',
+        name: loopName,
+        ...(filters.length && { filters }),
+      });
+    };
+
+    // Handler for includes: #{>path/to/partial}
+    // The partial's frontmatter is merged in (local declarations win) and its
+    // body is inlined, so its variables become part of this template's schema
+    const handleInclude = () => {
+      const partial = trimmedName
+        ? includeContext.resolvePartial?.(trimmedName)
+        : undefined;
+
+      if (!partial) {
+        if (trimmedName) {
+          report(
+            'error',
+            'unresolved-include',
+            `Could not resolve include ${trimmedName}`,
+            matchStartIndex
+          );
+        }
+        currentTarget.push(fullMatch);
+        return;
+      }
+      if (includeContext.stack.includes(partial.id)) {
+        report(
+          'error',
+          'circular-include',
+          `Circular include of ${trimmedName} (${[...includeContext.stack, partial.id].join(' -> ')})`,
+          matchStartIndex
+        );
+        currentTarget.push(fullMatch);
+        return;
+      }
+
+      const partialLevel: TemplateLevel = {
+        id: partial.id,
+        content: partial.content,
+        ...extractFrontmatter(
+          partial.content,
+          partial.id,
+          includeContext.diagnostics
+        ),
+      };
+      Object.entries(partialLevel.frontmatter)
+        .filter(([key]) => !frontmatter[key])
+        .forEach(([key, entry]) => {
+          frontmatter[key] = entry;
+        });
+
+      includeContext.includes.add(partial.id);
+      const nested = buildASTFromBody(
+        frontmatter,
+        { ...includeContext, stack: [...includeContext.stack, partial.id] },
+        partialLevel
+      );
+
+      currentTarget.push(...nested.ast);
+      nested.variables
+        .filter(variable => !seenVariables.has(variable.name))
+        .forEach(variable => seenVariables.set(variable.name, variable));
+    };
+
+    // Handler for regular placeholder: #{variable}, #{variable?}
+    // or #{variable | filter arg}
     const handlePlaceholder = () => {
       const isOptional = !!suffix;
-      const frontmatterEntry = frontmatter[trimmedName];
+      const frontmatterEntry = frontmatter[variableName];
 
-      if (!trimmedName || !frontmatterEntry) {
-        currentContext.content.push(fullMatch);
+      if (!variableName || !frontmatterEntry) {
+        if (variableName) {
+          report(
+            'warning',
+            'undeclared-placeholder',
+            `${fullMatch} is not declared in frontmatter and is left as text`,
+            matchStartIndex
+          );
+        }
+        currentTarget.push(fullMatch);
         return;
       }
 
       const placeholder: Placeholder = {
         type: 'placeholder',
-        name: trimmedName,
+        name: variableName,
         description: frontmatterEntry.value,
         start: matchStartIndex,
         end: matchEndIndex,
         optional: isOptional || frontmatterEntry.optional,
+        schema: frontmatterEntry.schema,
+        ...(filters.length && { filters }),
       };
 
-      currentContext.content.push(placeholder);
+      // The variable stays in the schema, so it is not also reported unused
+      if (filterError) {
+        reportInvalidFilter();
+      } else {
+        currentTarget.push(placeholder);
+      }
 
-      if (!seenVariables.has(trimmedName)) {
-        seenVariables.set(trimmedName, placeholder);
+      if (!seenVariables.has(variableName)) {
+        seenVariables.set(variableName, placeholder);
       }
     };
 
     // Route to appropriate handler
-    if (prefix === '?') {
+    if (prefix === '?' || prefix === '!') {
       handleBlockStart();
+    } else if (prefix === '*') {
+      handleLoopStart();
+    } else if (prefix === '#') {
+      handleSectionStart();
+    } else if (prefix === ':') {
+      handleElse();
     } else if (prefix === '/') {
       handleBlockEnd();
+    } else if (prefix === '>') {
+      handleInclude();
+    } else if (trimmedName.startsWith('@')) {
+      handleLoopVariable();
     } else {
       handlePlaceholder();
     }
@@ -161,17 +769,23 @@ const buildASTFromBody = (
   // Add remaining text
   const remainingText = body.slice(lastIndex);
   if (remainingText) {
-    blockStack[blockStack.length - 1].content.push(remainingText);
+    targetOf(blockStack[blockStack.length - 1]).push(remainingText);
   }
 
   // Handle unclosed blocks
   const unclosedCount = blockStack.length - 1;
-  if (unclosedCount > 0) {
-    console.warn(
-      `Warning: ${unclosedCount} unclosed conditional block(s) detected`
+  blockStack
+    .slice(1)
+    .forEach(block =>
+      report(
+        'error',
+        'unclosed-block',
+        `Unclosed block ${block.opener}`,
+        block.offset ?? 0
+      )
     );
-  }
 
+  // Unclosed blocks are flattened back into literal text, innermost first
   const ast =
     unclosedCount > 0
       ? [
@@ -179,8 +793,9 @@ const buildASTFromBody = (
             .slice(1)
             .reverse()
             .flatMap(block => [
-              ...(block.variable ? [`#{?${block.variable}}`] : []),
+              ...(block.opener ? [block.opener] : []),
               ...block.content,
+              ...(block.alternate ? ['#{:else}', ...block.alternate] : []),
             ]),
           ...blockStack[0].content,
         ]
@@ -188,10 +803,28 @@ const buildASTFromBody = (
 
   return {
     ast,
-    variables: Array.from(seenVariables.values()),
+    variables: withFinalSchemas(
+      Array.from(seenVariables.values()),
+      frontmatter
+    ),
   };
 };
 
+/**
+ * Takes each variable's schema from the frontmatter as it is after the
+ * whole body was read. A loop turns its variable's declaration into an
+ * array when it is reached, so placeholders before the loop still
+ * advertise the array.
+ */
+const withFinalSchemas = (
+  variables: Placeholder[],
+  frontmatter: Frontmatter
+): Placeholder[] =>
+  variables.map(variable => ({
+    ...variable,
+    schema: frontmatter[variable.name]?.schema ?? variable.schema,
+  }));
+
 /**
  * Builds a JSON Schema from extracted variables
  */
@@ -203,13 +836,10 @@ const buildJSONSchema = (variables: Placeholder[]) => {
         ? variable.description
         : `Variable: ${variable.name}`;
 
-      acc[variable.name] = {
-        type: 'string',
-        description,
-      };
+      acc[variable.name] = { ...variable.schema, description };
       return acc;
     },
-    {} as Record<string, { type: 'string'; description: string }>
+    {} as Record<string, PropertySchema>
   );
 
   const required = variables
@@ -225,98 +855,388 @@ const buildJSONSchema = (variables: Placeholder[]) => {
 
 /**
  * Extracts YAML frontmatter from markdown content.
+ * YAML errors are added to `diagnostics` and leave the frontmatter empty.
  * @param {string} content - Full markdown content
- * @returns {{ frontmatter: Record<string, { value: string; optional: boolean }>; body: string }} Parsed YAML and body content
+ * @param {string | undefined} source - File id for diagnostics
+ * @param {Diagnostic[]} diagnostics - Collected diagnostics
+ * @returns {ExtractedTemplate} Parsed YAML, body content and its offset
  */
 const extractFrontmatter = (
-  content: string
-): {
-  frontmatter: Record<string, { value: string; optional: boolean }>;
-  body: string;
-} => {
+  content: string,
+  source: string | undefined,
+  diagnostics: Diagnostic[]
+): ExtractedTemplate => {
   const match = content.match(FRONTMATTER_PATTERN);
-  if (!match) return { frontmatter: {}, body: content };
+  if (!match) {
+    return {
+      frontmatter: {},
+      metadataValues: {},
+      namespaced: false,
+      body: content,
+      bodyOffset: 0,
+    };
+  }
 
   const [, yamlContent, bodyContent] = match;
-  const frontmatter = parseYAMLSafely(yamlContent);
+  const { frontmatter, metadataValues, namespaced, parent, error } =
+    parseYAMLSafely(yamlContent);
+
+  if (error) {
+    const yamlOffset = content.indexOf(yamlContent, 3);
+    diagnostics.push(
+      createDiagnostic(
+        'error',
+        'yaml-error',
+        `Invalid YAML frontmatter: ${error.message.split('\n')[0]}`,
+        {
+          content,
+          offset:
+            yamlOffset + (error instanceof YAMLParseError ? error.pos[0] : 0),
+          source,
+        }
+      )
+    );
+  }
 
-  return { frontmatter, body: bodyContent };
+  return {
+    frontmatter,
+    metadataValues,
+    namespaced,
+    body: bodyContent,
+    bodyOffset: content.length - bodyContent.length,
+    parent,
+  };
 };
 
 /**
  * Safely parses YAML content with error handling
- * Supports both `name: "value"` and `name?: "value"` syntax
+ * Supports both `name: "value"` and `name?: "value"` syntax, where the value
+ * is either a description string or an object declaring the variable's type.
+ * The reserved `extends` key names the parent template instead of a variable.
+ * Variables are either declared at the top level, or under `args:` with the
+ * metadata keys under `meta:` (see isNamespaced). In the flat form, plain
+ * values of the metadata keys are also returned as `metadataValues`.
  */
 const parseYAMLSafely = (
   yamlContent: string
-): Record<string, { value: string; optional: boolean }> => {
+): {
+  frontmatter: Frontmatter;
+  metadataValues: Record<string, unknown>;
+  namespaced: boolean;
+  parent?: string;
+  error?: Error;
+} => {
   try {
     const parsed = YAML.parse(yamlContent);
 
     if (!parsed || typeof parsed !== 'object') {
-      return {};
+      return { frontmatter: {}, metadataValues: {}, namespaced: false };
     }
 
-    // Convert all values to strings and detect optional fields (name?)
-    const processedEntries = Object.entries(parsed)
+    const { extends: parent, ...rest } = parsed;
+    const namespaced = isNamespaced(rest);
+    const declarations = namespaced ? (rest.args ?? {}) : rest;
+
+    // Normalize declarations and detect optional fields (name?)
+    const processedEntries = Object.entries(declarations)
       .filter(([key]) => typeof key === 'string')
       .map(([key, value]) => {
         const isOptional = key.endsWith('?');
         const cleanKey = isOptional ? key.slice(0, -1) : key;
-        return [
-          cleanKey,
-          { value: String(value), optional: isOptional },
-        ] as const;
+        return [cleanKey, parseVariableDeclaration(value, isOptional)] as const;
       });
 
-    return Object.fromEntries(processedEntries);
+    // Object values are always variable declarations
+    const metadataValues = Object.fromEntries(
+      Object.entries(namespaced ? (rest.meta ?? {}) : rest)
+        .map(([key, value]) => [key.replace(/\?$/, ''), value] as const)
+        .filter(
+          ([key, value]) =>
+            METADATA_KEYS.includes(key as keyof TemplateMetadata) &&
+            !isPlainObject(value)
+        )
+    );
+
+    return {
+      frontmatter: Object.fromEntries(processedEntries),
+      metadataValues,
+      namespaced,
+      ...(typeof parent === 'string' &&
+        parent.trim() && { parent: parent.trim() }),
+    };
   } catch (error) {
-    console.error('Failed to parse YAML frontmatter:', error);
-    return {};
+    return {
+      frontmatter: {},
+      metadataValues: {},
+      namespaced: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+};
+
+/**
+ * Whether frontmatter uses the `args:` / `meta:` sections rather than flat
+ * variable declarations: its only keys are `args` and `meta`, and both are
+ * mappings. A lone section is the flat declaration of a variable with that
+ * name only when it declares a `type` and nothing but declaration
+ * properties, such as `args: { type: array }`; `args: { description: ... }`
+ * declares a variable named `description`.
+ */
+const isNamespaced = (declarations: Record<string, unknown>): boolean => {
+  const sections = Object.entries(declarations);
+  if (
+    !sections.length ||
+    !sections.every(
+      ([key, value]) =>
+        (key === 'args' || key === 'meta') && isPlainObject(value)
+    )
+  ) {
+    return false;
   }
+  if (sections.length > 1) return true;
+  const [section] = Object.values(declarations) as Record<string, unknown>[];
+  const keys = Object.keys(section ?? {});
+  return !(
+    keys.includes('type') && keys.every(key => DECLARATION_KEYS.includes(key))
+  );
 };
 
+/**
+ * Normalizes a single frontmatter value into a variable declaration.
+ * Plain values are descriptions of string variables; objects may declare
+ * `description`, `type`, `enum`, `minimum`, `maximum`, `pattern`, `items`
+ * and `default`. Variables with a default are always optional.
+ */
+const parseVariableDeclaration = (
+  value: unknown,
+  optional: boolean
+): FrontmatterEntry => {
+  if (!isPlainObject(value)) {
+    return { value: String(value), optional, schema: { type: 'string' } };
+  }
+
+  const enumValues = parseEnum(value.enum);
+  const schema: VariableSchema = {
+    type: parseType(value.type, VARIABLE_TYPES, enumValues),
+  };
+
+  if (schema.type === 'array') {
+    schema.items = parseItems(value.items);
+  } else if (enumValues) {
+    schema.enum = enumValues;
+  }
+  if (typeof value.minimum === 'number') schema.minimum = value.minimum;
+  if (typeof value.maximum === 'number') schema.maximum = value.maximum;
+  if (typeof value.pattern === 'string') schema.pattern = value.pattern;
+
+  const defaultValue = parseDefault(value.default);
+  if (defaultValue !== undefined) schema.default = defaultValue;
+
+  return {
+    value: value.description === undefined ? '' : String(value.description),
+    optional: optional || defaultValue !== undefined,
+    schema,
+  };
+};
+
+/**
+ * Resolves a declared type, inferring it from enum values when omitted.
+ * Unknown types fall back to string.
+ */
+const parseType = <T extends VariableType>(
+  declared: unknown,
+  allowed: readonly T[],
+  enumValues?: ScalarValue[]
+): T | ScalarType => {
+  if (allowed.includes(declared as T)) return declared as T;
+  if (!enumValues) return 'string';
+  if (enumValues.every(item => typeof item === 'number')) return 'number';
+  if (enumValues.every(item => typeof item === 'boolean')) return 'boolean';
+  return 'string';
+};
+
+/**
+ * Parses the `items` declaration of an array variable.
+ * Accepts either a type name or an object with `type` and `enum`.
+ */
+const parseItems = (items: unknown): ItemsSchema => {
+  if (!isPlainObject(items)) {
+    return { type: parseType(items, SCALAR_TYPES) };
+  }
+  const enumValues = parseEnum(items.enum);
+  return {
+    type: parseType(items.type, SCALAR_TYPES, enumValues),
+    ...(enumValues ? { enum: enumValues } : {}),
+  };
+};
+
+const parseEnum = (values: unknown): ScalarValue[] | undefined => {
+  if (!Array.isArray(values)) return undefined;
+  const scalars = values.filter((item): item is ScalarValue =>
+    ['string', 'number', 'boolean'].includes(typeof item)
+  );
+  return scalars.length ? scalars : undefined;
+};
+
+const parseDefault = (value: unknown): VariableValue | undefined => {
+  if (Array.isArray(value)) return parseEnum(value) ?? [];
+  return ['string', 'number', 'boolean'].includes(typeof value)
+    ? (value as ScalarValue)
+    : undefined;
+};
+
+/**
+ * Converts a scalar declaration into a list of that scalar, for loop variables.
+ * Enum, range and pattern constraints apply to each item, and a default
+ * such as `"a, b"` becomes a list.
+ */
+const toArraySchema = (schema: VariableSchema): VariableSchema => {
+  if (schema.type === 'array') return schema;
+  const { type, default: defaultValue, items: _items, ...constraints } = schema;
+  return {
+    type: 'array',
+    items: { type, ...constraints },
+    ...(defaultValue !== undefined && {
+      default: (coerceArray(defaultValue) ?? [defaultValue].flat()).map(
+        item => item as ScalarValue
+      ),
+    }),
+  };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Formats a typed argument value as template text.
+ * Arrays are joined with commas, other values are stringified.
+ */
+const formatValue = (value: VariableValue): string =>
+  Array.isArray(value) ? value.map(String).join(', ') : String(value);
+
+/**
+ * Determines whether a value should enable a conditional block.
+ * `false`, empty arrays, and blank strings count as absent.
+ */
+const hasValue = (value: VariableValue | undefined): boolean => {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.length > 0;
+  return String(value).trim() !== '';
+};
+
+/**
+ * Converts a loop variable's value into the list of items to iterate.
+ * Strings are split on newlines or commas; other scalars become one item.
+ */
+const toList = (value: VariableValue | undefined): ScalarValue[] => {
+  if (value === undefined || value === null || value === '') return [];
+  if (typeof value !== 'string') return [value].flat();
+  return (coerceArray(value) ?? []).map(item => item as ScalarValue);
+};
+
+/**
+ * Fills in frontmatter defaults for variables without a provided value.
+ */
+const applyDefaults = (
+  vars: Placeholder[],
+  variables: TemplateArguments
+): TemplateArguments =>
+  vars.reduce(
+    (acc, variable) => {
+      const { default: defaultValue } = variable.schema;
+      if (acc[variable.name] === undefined && defaultValue !== undefined) {
+        acc[variable.name] = defaultValue;
+      }
+      return acc;
+    },
+    { ...variables }
+  );
+
 /**
  * Substitutes variables in a parsed template AST to produce final output.
+ * Missing values fall back to the variable's frontmatter default.
  * For optional fields with empty string values, treats them as intentionally null and removes the placeholder.
- * Conditional blocks are only rendered if their controlling variable has a non-empty value.
+ * Conditional blocks are only rendered if their controlling variable has a non-empty value
+ * (or satisfies the block's condition), negated blocks only if it does not; either falls
+ * back to its #{:else} branch. Loop blocks render once per list item, with #{@item},
+ * #{@index} (from 0) and #{@number} (from 1), or their #{:else} branch when the list is empty.
+ * Placeholder filters are applied to the value before it is formatted as text.
  * @param {ParsedTemplate} parsed - Parsed template with AST
- * @param {Record<string, string>} variables - Map of variable names to values
+ * @param {TemplateArguments} variables - Map of variable names to typed values
  * @returns {string} Rendered output with variables substituted
  */
 const renderTemplate = (
   parsed: ParsedTemplate,
-  variables: Record<string, string>
+  variables: TemplateArguments
 ): string => {
-  const renderNode = (node: ASTNode): string => {
+  const values = applyDefaults(parsed.vars, variables);
+
+  type LoopScope = { item: ScalarValue; index: number };
+
+  const renderNodes = (nodes: ASTNode[], scope?: LoopScope): string =>
+    nodes.map(node => renderNode(node, scope)).join('');
+
+  const renderNode = (node: ASTNode, scope?: LoopScope): string => {
     // Text node
     if (typeof node === 'string') {
       return node;
     }
 
-    // Conditional block node
-    if (node.type === 'block') {
-      const controlValue = variables[node.variable];
-      // Only render block if control variable has a non-empty value
-      if (!controlValue || controlValue.trim() === '') {
-        return '';
-      }
-      // Recursively render block content
-      return node.content.map(renderNode).join('');
+    // Loop variable node, resolved against the innermost loop
+    if (node.type === 'loop-variable') {
+      if (!scope) return `#{@${node.name}}`;
+      const value: VariableValue =
+        node.name === 'item'
+          ? scope.item
+          : node.name === 'index'
+            ? scope.index
+            : scope.index + 1;
+      return formatValue(applyFilters(value, node.filters ?? []));
+    }
+
+    // Section node: its own or an overriding child's content
+    if (node.type === 'section') {
+      return renderNodes(node.content, scope);
+    }
+
+    // Loop block node: content once per item, else the alternate
+    if (node.type === 'loop') {
+      const items = toList(values[node.variable]);
+      if (!items.length) return renderNodes(node.alternate ?? [], scope);
+      return items
+        .map((item, index) => renderNodes(node.content, { item, index }))
+        .join('');
+    }
+
+    // Conditional block node: content when the control variable has a
+    // non-empty value or meets the condition (inverted for negated blocks),
+    // else the alternate
+    if (node.type === 'block' || node.type === 'negated') {
+      const value = values[node.variable];
+      const isSet = node.condition
+        ? evaluateCondition(value, node.condition)
+        : hasValue(value);
+      const branch =
+        isSet === (node.type === 'block') ? node.content : node.alternate;
+      // Recursively render the selected branch
+      return renderNodes(branch ?? [], scope);
     }
 
     // Placeholder node
-    const substitutedValue = variables[node.name];
+    const substitutedValue = values[node.name];
 
     // For optional fields: empty string = intentionally null, render as empty
     if (node.optional && substitutedValue === '') {
       return '';
     }
 
-    return substitutedValue ?? `#{${node.name}}`;
+    return substitutedValue === undefined || substitutedValue === null
+      ? `#{${node.name}}`
+      : formatValue(applyFilters(substitutedValue, node.filters ?? []));
   };
 
-  return parsed.ast.map(renderNode).join('');
+  return renderNodes(parsed.ast);
 };
 
 export { parseTemplate, renderTemplate };
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Partial Template Resolution
+ * Resolves #{>name} includes to markdown files inside the commands directories.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { PartialTemplate } from './types.js';
+
+/**
+ * Reads a file from disk.
+ * @param {string} filePath - Partial path
+ * @returns {string | undefined} Content, or undefined if it cannot be read
+ */
+const readFile = (filePath: string): string | undefined => {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates a resolver that looks up `name.md` relative to each commands directory.
+ * Later directories take precedence, so with the default [global, project]
+ * order a project partial overrides a global one of the same name.
+ * Names that escape their directory (e.g. `../secret`) are never resolved.
+ * @param {string[]} commandsDirs - Directories searched for partials
+ * @param {(filePath: string) => string | undefined} [read] - Reads a candidate file, from disk by default; template sources pass their own
+ * @returns {(name: string) => PartialTemplate | undefined} Resolver for parseTemplate
+ */
+const createPartialResolver =
+  (
+    commandsDirs: string[],
+    read: (filePath: string) => string | undefined = readFile
+  ) =>
+  (name: string): PartialTemplate | undefined => {
+    const fileName = name.endsWith('.md') ? name : `${name}.md`;
+
+    for (const dir of [...commandsDirs].reverse()) {
+      const root = path.resolve(dir);
+      const filePath = path.resolve(root, fileName);
+      if (!filePath.startsWith(`${root}${path.sep}`)) continue;
+
+      // Not in this directory when undefined, try the next one
+      const content = read(filePath);
+      if (content !== undefined) return { id: filePath, content };
+    }
+
+    return undefined;
+  };
+
+export { createPartialResolver };
@@ -0,0 +1,401 @@
+/**
+ * @fileoverview Command Registry Loading
+ * Turns template files into registered tools, shared by the server and the
+ * CLI subcommands so both resolve names the same way.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parseTemplate } from './parser.js';
+import { createPartialResolver } from './partials.js';
+import type {
+  ParseOptions,
+  RegisteredTool,
+  ScanOptions,
+  VariableValue,
+} from './types.js';
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_.-]{1,64}$/;
+const SEPARATORS = ['_', '-', '.'];
+const DEFAULT_SEPARATOR = '_';
+const PRECEDENCES = ['first', 'last'];
+const FRONTMATTER_PATTERN = /^---\s*\n[\s\S]*?\n---\s*\n/;
+
+type CommandFile = {
+  dir: string;
+  filePath: string;
+  toolName: string;
+};
+
+type PromptArgument = {
+  name: string;
+  description: string;
+  required: boolean;
+  default?: VariableValue;
+};
+
+/**
+ * Lists the template files registered as tools, in directory order then by
+ * path. Files directly inside a commands directory are always commands;
+ * files up to `depth` subdirectories down are too, except in partial
+ * directories (see isPartialDirectory). Missing directories are skipped,
+ * and repeated ones are listed once.
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ScanOptions} [options] - Subdirectory depth and name separator
+ * @returns {Promise<CommandFile[]>} Command files with their file-based tool names
+ */
+const listCommandFiles = async (
+  commandsDirs: string[],
+  options: ScanOptions = {}
+): Promise<CommandFile[]> => {
+  const { depth = 0 } = options;
+
+  const walk = async (dir: string, level: number): Promise<string[]> => {
+    const entries = await fs
+      .readdir(dir, { withFileTypes: true })
+      .catch(() => []);
+    const nested = await Promise.all(
+      entries
+        .filter(
+          entry =>
+            entry.isDirectory() &&
+            level < depth &&
+            !isPartialDirectory(entry.name)
+        )
+        .map(entry => walk(path.join(dir, entry.name), level + 1))
+    );
+    return [
+      ...entries
+        .filter(entry => entry.isFile() && entry.name.endsWith('.md'))
+        .map(entry => path.join(dir, entry.name)),
+      ...nested.flat(),
+    ];
+  };
+
+  const perDir = await Promise.all(
+    uniqueDirectories(commandsDirs).map(async dir =>
+      (await walk(path.resolve(dir), 0)).sort().flatMap(filePath => {
+        const toolName = commandNameFor(dir, filePath, options);
+        return toolName ? [{ dir, filePath, toolName }] : [];
+      })
+    )
+  );
+  return perDir.flat();
+};
+
+/**
+ * Drops repeated directories, such as the global and project directories
+ * when run from the home directory, so no file is loaded twice.
+ * @param {string[]} dirs - Directories, lowest precedence first
+ * @returns {string[]} Each directory once, at its first position
+ */
+const uniqueDirectories = (dirs: string[]): string[] => {
+  const seen = new Set<string>();
+  return dirs.filter(dir => {
+    const resolved = path.resolve(dir);
+    if (seen.has(resolved)) return false;
+    seen.add(resolved);
+    return true;
+  });
+};
+
+/**
+ * Derives the tool name of a file inside a commands directory, joining
+ * its subdirectories and file name with the separator, e.g.
+ * `review/security.md` becomes `review_security`.
+ * @param {string} dir - Commands directory
+ * @param {string} filePath - Template file
+ * @param {ScanOptions} [options] - Subdirectory depth and name separator
+ * @returns {string | undefined} Tool name, or undefined if the file is not a command
+ */
+const commandNameFor = (
+  dir: string,
+  filePath: string,
+  options: ScanOptions = {}
+): string | undefined => {
+  const { depth = 0, separator = DEFAULT_SEPARATOR } = options;
+  const relative = path.relative(path.resolve(dir), path.resolve(filePath));
+  if (
+    !relative.endsWith('.md') ||
+    relative.startsWith('..') ||
+    path.isAbsolute(relative)
+  ) {
+    return undefined;
+  }
+
+  const segments = relative.slice(0, -'.md'.length).split(path.sep);
+  const folders = segments.slice(0, -1);
+  if (folders.length > depth || folders.some(isPartialDirectory)) {
+    return undefined;
+  }
+  return segments.join(separator);
+};
+
+/**
+ * Whether a subdirectory holds shared content rather than commands:
+ * `partials`, `bases`, or any name starting with `_`.
+ * @param {string} name - Directory name
+ * @returns {boolean} True if files inside are never registered
+ */
+const isPartialDirectory = (name: string): boolean =>
+  name === 'partials' || name === 'bases' || name.startsWith('_');
+
+/**
+ * Checks scan options, e.g. from the environment.
+ * @param {ScanOptions} options - Options to check
+ * @returns {ScanOptions} The same options
+ * @throws {Error} If depth is not a non-negative integer or the separator is unsupported
+ */
+const validateScanOptions = (options: ScanOptions): ScanOptions => {
+  const { depth, separator, precedence } = options;
+  if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+    throw new Error(`Invalid depth ${depth}: use a non-negative integer`);
+  }
+  if (separator !== undefined && !SEPARATORS.includes(separator)) {
+    throw new Error(
+      `Invalid separator "${separator}": use one of ${SEPARATORS.map(item => `"${item}"`).join(', ')}`
+    );
+  }
+  if (precedence !== undefined && !PRECEDENCES.includes(precedence)) {
+    throw new Error(
+      `Invalid precedence "${precedence}": use "first" or "last"`
+    );
+  }
+  return options;
+};
+
+/**
+ * Parses a template file into a registered tool.
+ * The frontmatter `name`, `title`, `description` and `tags` keys override
+ * the file-based name and the description taken from the first line of text.
+ * @param {string} filePath - Source file, used as the id for include tracking
+ * @param {string} content - Template markdown content
+ * @param {ParseOptions['resolvePartial']} resolvePartial - Resolver for includes and parents
+ * @param {string} [defaultName] - Name when the frontmatter sets none, the file name by default
+ * @returns {RegisteredTool} Tool with parsed template and description
+ */
+const createRegisteredTool = (
+  filePath: string,
+  content: string,
+  resolvePartial: ParseOptions['resolvePartial'],
+  defaultName = path.basename(filePath, '.md')
+): RegisteredTool => {
+  const parsed = parseTemplate(content, {
+    id: path.resolve(filePath),
+    resolvePartial,
+  });
+  const { name, title, description, tags = [] } = parsed.metadata;
+  return {
+    name: name ?? defaultName,
+    ...(title && { title }),
+    description: description ?? extractDescription(content),
+    tags,
+    filePath,
+    parsed,
+  };
+};
+
+/**
+ * Loads every command file once, without watching, including files whose
+ * name is overridden by a later directory. Templates that fail to parse
+ * are skipped.
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ParseOptions['resolvePartial']} resolvePartial - Resolver for includes and parents
+ * @param {ScanOptions} [options] - Subdirectory depth and name separator
+ * @returns {Promise<RegisteredTool[]>} Tools in directory order
+ */
+const loadAllCommands = async (
+  commandsDirs: string[],
+  resolvePartial: ParseOptions['resolvePartial'],
+  options: ScanOptions = {}
+): Promise<RegisteredTool[]> => {
+  const tools: RegisteredTool[] = [];
+  for (const file of await listCommandFiles(commandsDirs, options)) {
+    try {
+      const content = await fs.readFile(file.filePath, 'utf-8');
+      tools.push(
+        createRegisteredTool(
+          file.filePath,
+          content,
+          resolvePartial,
+          file.toolName
+        )
+      );
+    } catch (error) {
+      console.error(`Failed to load ${file.filePath}:`, error);
+    }
+  }
+  return tools;
+};
+
+/**
+ * Loads the command registry once, without watching. When several files
+ * define the same name, the one chosen by pickCommand wins.
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ParseOptions['resolvePartial']} resolvePartial - Resolver for includes and parents
+ * @param {ScanOptions} [options] - Subdirectory depth, name separator and precedence
+ * @returns {Promise<Map<string, RegisteredTool>>} Tools by name
+ */
+const loadCommands = async (
+  commandsDirs: string[],
+  resolvePartial: ParseOptions['resolvePartial'],
+  options: ScanOptions = {}
+): Promise<Map<string, RegisteredTool>> =>
+  selectCommands(
+    await loadAllCommands(commandsDirs, resolvePartial, options),
+    commandsDirs,
+    options
+  );
+
+/**
+ * Picks the winning tool for each name among all loaded files.
+ * @param {RegisteredTool[]} tools - Every loaded tool, including shadowed ones
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ScanOptions} [options] - Precedence between directories
+ * @returns {Map<string, RegisteredTool>} Winning tools by name
+ */
+const selectCommands = (
+  tools: RegisteredTool[],
+  commandsDirs: string[],
+  options: ScanOptions = {}
+): Map<string, RegisteredTool> => {
+  const byName = new Map<string, RegisteredTool[]>();
+  tools.forEach(tool =>
+    byName.set(tool.name, [...(byName.get(tool.name) ?? []), tool])
+  );
+  return new Map(
+    Array.from(byName, ([name, candidates]) => [
+      name,
+      pickCommand(candidates, commandsDirs, options) as RegisteredTool,
+    ])
+  );
+};
+
+/**
+ * Chooses which of several files defining the same name is served. With
+ * the default `last` precedence the file from the later directory wins,
+ * so a project command overrides a global one; `first` reverses that.
+ * Within one directory the file whose path sorts last wins, regardless of
+ * the order files were loaded or changed in.
+ * @param {RegisteredTool[]} candidates - Tools sharing one name
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ScanOptions} [options] - Precedence between directories
+ * @returns {RegisteredTool | undefined} The winner, or undefined without candidates
+ */
+const pickCommand = (
+  candidates: RegisteredTool[],
+  commandsDirs: string[],
+  options: ScanOptions = {}
+): RegisteredTool | undefined => {
+  const { precedence = 'last' } = options;
+  const rank = (tool: RegisteredTool) => {
+    const id = path.resolve(tool.filePath);
+    const index = commandsDirs
+      .map(dir => id.startsWith(`${path.resolve(dir)}${path.sep}`))
+      .lastIndexOf(true);
+    return precedence === 'last' ? index : -index;
+  };
+
+  return candidates.reduce<RegisteredTool | undefined>((best, tool) => {
+    if (!best) return tool;
+    const byDir = rank(tool) - rank(best);
+    if (byDir !== 0) return byDir > 0 ? tool : best;
+    return tool.filePath > best.filePath ? tool : best;
+  }, undefined);
+};
+
+/**
+ * Finds a command by tool name, or loads a template file directly when
+ * `target` is a path to an existing file. Files outside the commands
+ * directories can still include partials relative to their own directory.
+ * @param {string} target - Tool name or path to a template file
+ * @param {string[]} commandsDirs - Commands directories, lowest precedence first
+ * @param {ScanOptions} [options] - Subdirectory depth and name separator
+ * @returns {Promise<RegisteredTool | undefined>} The command, or undefined if not found
+ */
+const resolveCommand = async (
+  target: string,
+  commandsDirs: string[],
+  options: ScanOptions = {}
+): Promise<RegisteredTool | undefined> => {
+  const isFile = await fs
+    .stat(target)
+    .then(stats => stats.isFile())
+    .catch(() => false);
+
+  if (!isFile) {
+    const tools = await loadCommands(
+      commandsDirs,
+      createPartialResolver(commandsDirs),
+      options
+    );
+    return tools.get(target);
+  }
+
+  const filePath = path.resolve(target);
+  const content = await fs.readFile(filePath, 'utf-8');
+  const name = commandsDirs
+    .map(dir => commandNameFor(dir, filePath, options))
+    .find(Boolean);
+  return createRegisteredTool(
+    filePath,
+    content,
+    createPartialResolver([...commandsDirs, path.dirname(filePath)]),
+    name
+  );
+};
+
+/**
+ * Builds the MCP prompt arguments advertised for a tool.
+ * @param {RegisteredTool} tool - Registered tool
+ * @returns {PromptArgument[]} One argument per template variable
+ */
+const toPromptArguments = (tool: RegisteredTool): PromptArgument[] =>
+  tool.parsed.vars.map(v => ({
+    name: v.name,
+    description: v.description ?? `Variable: ${v.name}`,
+    required: !v.optional,
+    ...(v.schema.default !== undefined && { default: v.schema.default }),
+  }));
+
+/**
+ * Whether a name is usable as an MCP tool name: 1-64 letters, digits,
+ * `_`, `-` or `.`.
+ * @param {string} name - Candidate tool name
+ * @returns {boolean} True if clients will accept the name
+ */
+const isValidToolName = (name: string): boolean => TOOL_NAME_PATTERN.test(name);
+
+/**
+ * Extracts a human-readable description from the first line of template
+ * text after the frontmatter.
+ * @param {string} content - Template markdown content
+ * @returns {string} Description (max 100 chars) or fallback 'Command'
+ */
+const extractDescription = (content: string): string => {
+  const lines = content.replace(FRONTMATTER_PATTERN, '').split('\n');
+  const found = lines.find(line => {
+    const trimmed = line.trim();
+    return (
+      Boolean(trimmed) && !trimmed.startsWith('#') && !trimmed.startsWith('$')
+    );
+  });
+  return found?.trim().slice(0, 100) ?? 'Command';
+};
+
+export {
+  listCommandFiles,
+  uniqueDirectories,
+  commandNameFor,
+  isPartialDirectory,
+  validateScanOptions,
+  createRegisteredTool,
+  loadAllCommands,
+  loadCommands,
+  selectCommands,
+  pickCommand,
+  resolveCommand,
+  toPromptArguments,
+  isValidToolName,
+};
+export type { CommandFile, PromptArgument };
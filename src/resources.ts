@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Command Resources
+ * Publishes each command as two MCP resources: its template source at
+ * `command://<name>` and its parsed metadata at `command://<name>/metadata`.
+ */
+
+import { inspectCommand } from './inspect.js';
+import type { RegisteredTool } from './types.js';
+
+const URI_SCHEME = 'command://';
+const METADATA_SUFFIX = '/metadata';
+
+type CommandResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+};
+
+type CommandResourceContents = {
+  uri: string;
+  mimeType: string;
+  text: string;
+};
+
+/**
+ * URI of a command's template source. Names are percent-encoded, so names
+ * containing `/` stay one path segment.
+ * @param {string} name - Command name
+ * @returns {string} URI such as `command://review`
+ */
+const commandUri = (name: string): string =>
+  `${URI_SCHEME}${encodeURIComponent(name)}`;
+
+/**
+ * URI of a command's parsed metadata.
+ * @param {string} name - Command name
+ * @returns {string} URI such as `command://review/metadata`
+ */
+const metadataUri = (name: string): string =>
+  `${commandUri(name)}${METADATA_SUFFIX}`;
+
+/**
+ * Splits a resource URI into the command name and the resource kind.
+ * @param {string} uri - Resource URI
+ * @returns {{ name: string, kind: 'source' | 'metadata' } | undefined} Undefined for URIs outside the scheme
+ */
+const parseCommandUri = (
+  uri: string
+): { name: string; kind: 'source' | 'metadata' } | undefined => {
+  if (!uri.startsWith(URI_SCHEME)) return undefined;
+  const rest = uri.slice(URI_SCHEME.length);
+  const kind = rest.endsWith(METADATA_SUFFIX) ? 'metadata' : 'source';
+  const encoded =
+    kind === 'metadata' ? rest.slice(0, -METADATA_SUFFIX.length) : rest;
+  if (!encoded || encoded.includes('/')) return undefined;
+  try {
+    return { name: decodeURIComponent(encoded), kind };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Lists the source and metadata resources of every command.
+ * @param {Iterable<RegisteredTool>} tools - Registered tools
+ * @returns {CommandResource[]} Two resources per command, sorted by name
+ */
+const listCommandResources = (
+  tools: Iterable<RegisteredTool>
+): CommandResource[] =>
+  Array.from(tools)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(tool => [
+      {
+        uri: commandUri(tool.name),
+        name: tool.name,
+        description: tool.description,
+        mimeType: 'text/markdown',
+      },
+      {
+        uri: metadataUri(tool.name),
+        name: `${tool.name} metadata`,
+        description: `Input schema, variables and source path of ${tool.name}`,
+        mimeType: 'application/json',
+      },
+    ]);
+
+/**
+ * Reads a command resource: the raw template, or its metadata as JSON.
+ * @param {Map<string, RegisteredTool>} tools - Registered tools by name
+ * @param {string} uri - Resource URI
+ * @returns {CommandResourceContents | undefined} Undefined when no command matches
+ */
+const readCommandResource = (
+  tools: Map<string, RegisteredTool>,
+  uri: string
+): CommandResourceContents | undefined => {
+  const parsed = parseCommandUri(uri);
+  const tool = parsed && tools.get(parsed.name);
+  if (!parsed || !tool) return undefined;
+  if (parsed.kind === 'source') {
+    return { uri, mimeType: 'text/markdown', text: tool.parsed.template };
+  }
+  const metadata = {
+    ...inspectCommand(tool),
+    variables: Object.keys(tool.parsed.inputSchema.properties),
+  };
+  return {
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(metadata, null, 2),
+  };
+};
+
+export {
+  commandUri,
+  metadataUri,
+  parseCommandUri,
+  listCommandResources,
+  readCommandResource,
+};
+export type { CommandResource, CommandResourceContents };
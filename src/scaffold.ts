@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Command Template Scaffolding
+ * Builds new command templates from answers to a few questions, so the
+ * frontmatter is valid from the start.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parseTemplate } from './parser.js';
+import type { ParsedTemplate, VariableType } from './types.js';
+
+type VariableSpec = {
+  name: string;
+  description: string;
+  optional: boolean;
+  type: VariableType;
+};
+
+type TemplateSpec = {
+  description: string;
+  variables: VariableSpec[];
+};
+
+type Ask = (_question: string) => Promise<string>;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Frontmatter keys that never declare a variable
+const RESERVED_NAMES = ['extends'];
+const VARIABLE_TYPES: readonly VariableType[] = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'array',
+];
+
+/**
+ * Asks for the command description and its variables until an empty
+ * variable name is entered. Invalid or reserved names and invalid types are
+ * asked again.
+ * @param {Ask} ask - Prints a question and resolves with the answer
+ * @returns {Promise<TemplateSpec>} Answers collected into a spec
+ */
+const promptTemplateSpec = async (ask: Ask): Promise<TemplateSpec> => {
+  const description = (await ask('Description: ')).trim();
+  const variables: VariableSpec[] = [];
+  let hint = '';
+
+  for (;;) {
+    const name = (
+      await ask(`${hint}Variable name (leave empty to finish): `)
+    ).trim();
+    hint = '';
+    if (!name) break;
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      hint = `Invalid name "${name}", use letters, digits and "_".\n`;
+      continue;
+    }
+    if (RESERVED_NAMES.includes(name)) {
+      hint = `"${name}" is reserved, choose another name.\n`;
+      continue;
+    }
+    if (variables.some(variable => variable.name === name)) {
+      hint = `"${name}" is already a variable.\n`;
+      continue;
+    }
+
+    const variableDescription = (
+      await ask(`  Description of ${name}: `)
+    ).trim();
+    const optional = /^y(es)?$/i.test(
+      (await ask('  Optional? (y/N): ')).trim()
+    );
+    const type = await askType(ask);
+    variables.push({ name, description: variableDescription, optional, type });
+  }
+
+  return { description, variables };
+};
+
+const askType = async (ask: Ask): Promise<VariableType> => {
+  for (;;) {
+    const answer = (
+      await ask(`  Type (${VARIABLE_TYPES.join(', ')}) [string]: `)
+    ).trim();
+    if (!answer) return 'string';
+    const type = VARIABLE_TYPES.find(item => item === answer);
+    if (type) return type;
+  }
+};
+
+/**
+ * Renders a spec as markdown with frontmatter. String variables use the
+ * short `name: "description"` form; other types use the object form.
+ * Optional variables get a conditional block and arrays a loop.
+ * @param {TemplateSpec} spec - Description and variables
+ * @returns {string} Template content
+ */
+const buildTemplate = (spec: TemplateSpec): string => {
+  const declarations = spec.variables.map(variable => {
+    const key = `${variable.name}${variable.optional ? '?' : ''}`;
+    const description = JSON.stringify(variable.description);
+    return variable.type === 'string'
+      ? `${key}: ${description}`
+      : `${key}:\n  type: ${variable.type}\n  description: ${description}`;
+  });
+
+  const body = spec.variables.map(variable => {
+    const label = variable.description || variable.name;
+    if (variable.type === 'array') {
+      return `${label}:\n#{*${variable.name}}\n- #{@item}\n#{/${variable.name}}`;
+    }
+    if (variable.optional) {
+      return `#{?${variable.name}}\n${label}: #{${variable.name}}\n#{/${variable.name}}`;
+    }
+    return `${label}: #{${variable.name}}`;
+  });
+
+  const frontmatter = declarations.length
+    ? `---\n${declarations.join('\n')}\n---\n`
+    : '';
+  const intro = spec.description || 'Describe what this command does.';
+  return `${frontmatter}${[intro, ...body].join('\n\n')}\n`;
+};
+
+/**
+ * Writes a new template into a commands directory and parses it back.
+ * @param {string} dir - Commands directory to write into (created if missing)
+ * @param {string} name - Tool name, used as the file name
+ * @param {string} content - Template content
+ * @returns {Promise<{ filePath: string; parsed: ParsedTemplate }>} Written file and its parse result
+ * @throws {Error} If a template with that name already exists
+ */
+const writeTemplate = async (
+  dir: string,
+  name: string,
+  content: string
+): Promise<{ filePath: string; parsed: ParsedTemplate }> => {
+  const filePath = path.resolve(dir, `${name}.md`);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(filePath, content, { flag: 'wx' }).catch(error => {
+    if (error?.code === 'EEXIST') {
+      throw new Error(`${filePath} already exists`);
+    }
+    throw error;
+  });
+  return { filePath, parsed: parseTemplate(content, { id: filePath }) };
+};
+
+export { promptTemplateSpec, buildTemplate, writeTemplate };
+export type { Ask, TemplateSpec, VariableSpec };
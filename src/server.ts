@@ -3,6 +3,7 @@
  * Dynamically registers and executes command templates as tools and prompts.
  */
 
+import type http from 'http';
 import path from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
@@ -11,14 +12,71 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError,
 } from '@modelcontextprotocol/sdk/types.js';
-import { parseTemplate, renderTemplate } from './parser.js';
+import { formatDiagnostic } from './diagnostics.js';
+import { closeHttp, listenHttp, sseUrl } from './http.js';
+import type { HttpOptions } from './http.js';
+import { renderTemplate } from './parser.js';
+import { createPartialResolver } from './partials.js';
+import {
+  commandUri,
+  listCommandResources,
+  metadataUri,
+  readCommandResource,
+} from './resources.js';
+import {
+  commandNameFor,
+  createRegisteredTool,
+  pickCommand,
+  toPromptArguments,
+} from './registry.js';
+import { formatIssues, validateArguments } from './validator.js';
+import { createMemorySource, isTemplateSource } from './sources.js';
+import type { TemplateSource } from './sources.js';
 import { createCommandWatcher } from './watcher.js';
-import type { RegisteredTool } from './types.js';
+import type { FileChangeHandler, WatcherEvent } from './watcher.js';
+import { createLogger } from './logger.js';
+import type { Logger } from './logger.js';
+import type {
+  ExposeMode,
+  RegisteredTool,
+  ScanOptions,
+  TemplateArguments,
+} from './types.js';
+
+const DEPENDENCY_PATTERN = /#\{>[^}]+}|^extends\s*:/m;
+const LIST_CHANGED_DELAY_MS = 100;
+
+type ServerOptions = ScanOptions & {
+  expose?: ExposeMode;
+  logger?: Logger;
+};
+
+/** Hooks for code embedding the server, registered with `on` */
+type CommandServerEvents = {
+  /** A command was added, or the file serving it changed */
+  register: (tool: RegisteredTool) => void;
+  /** No template defines the command anymore */
+  unregister: (name: string) => void;
+  /** A template could not be parsed */
+  error: (error: unknown, filePath: string) => void;
+};
+
+type CommandServerEvent = keyof CommandServerEvents;
+
+// Virtual directory of the templates added with registerTemplate
+const REGISTERED_ROOT = path.resolve('/registered');
 
 /**
  * Creates an MCP server with dynamic command loading from markdown templates.
- * @param {string[]} commandsDirs - Directory path(s) to watch for .md files, can be overridden by the COMMAND_DIRS environment variable
+ * @param {Array<string | TemplateSource>} commandsDirs - Directory path(s) to watch for .md files, and other template sources, lowest precedence first
+ * @param {ServerOptions} [options] - Scan and precedence options, whether commands are exposed as tools, prompts or both, and the logger
  * @returns {Object} Server instance with start/stop methods and internal references
  * @example
  * ```typescript
@@ -33,157 +91,534 @@ import type { RegisteredTool } from './types.js';
  *       "command": "npx",
  *       "args": ["-y", "emmahyde/cursor-command-publisher"],
  *       "env": {
- *         "COMMAND_DIRS": [
- *           "path/to/commands/directory",
- *           "another/path/to/commands/directory"
- *         ]
+ *         "COMMANDS_DIR": "path/to/commands/directory,another/path/to/commands/directory"
  *       }
  *     }
  *   }
  * }
  * ```
  */
-const createCommandServer = (commandsDirs: string[]) => {
-  const server = new Server(
-    { name: 'command-publisher', version: '1.0.0' },
-    { capabilities: { tools: {}, prompts: {} } }
-  );
+const createCommandServer = (
+  commandsDirs: (string | TemplateSource)[],
+  options: ServerOptions = {}
+) => {
+  const { expose = 'both', logger = createLogger() } = options;
+  const exposeTools = expose !== 'prompts';
+  const exposePrompts = expose !== 'tools';
+
+  // One MCP server per connected client, all sharing the registry below,
+  // with the resource URIs each client subscribed to
+  const sessions: Map<Server, Set<string>> = new Map();
+  let httpServer: http.Server | undefined;
 
   const tools: Map<string, RegisteredTool> = new Map();
-  const watcher = createCommandWatcher(commandsDirs);
-
-  /**
-   * Lists all registered command tools.
-   * @returns {Promise<{ tools: Array<{ name, description, inputSchema }> }>}
-   */
-  server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: Array.from(tools.values()).map(tool => ({
-      name: tool.name,
-      description: tool.description ?? `Execute ${tool.name}`,
-      inputSchema: tool.parsed.inputSchema as Record<string, unknown>,
-    })),
-  }));
-
-  /**
-   * Executes a command tool with variable substitution.
-   * @param {Object} request - MCP request with tool name and arguments
-   * @returns {Promise<{ content: Array<{ type, text }> }>} Rendered template output
-   * @throws {Error} If tool not found or required arguments missing
-   */
-  server.setRequestHandler(CallToolRequestSchema, async request => {
-    const { name, arguments: args = {} } = request.params;
-    const tool = tools.get(name);
-    if (!tool) throw new Error(`Tool not found: ${name}`);
-
-    const missing = tool.parsed.vars
-      .filter(v => !v.optional)
-      .map(v => v.name)
-      .filter(v => !(v in (args as Record<string, unknown>)));
-    if (missing.length)
-      throw new Error(`Missing required arguments: ${missing.join(', ')}`);
-
-    const result = renderTemplate(tool.parsed, args as Record<string, string>);
-    return { content: [{ type: 'text', text: result }] };
-  });
-
-  /**
-   * Lists all available prompts (same as tools, different response format).
-   * @returns {Promise<{ prompts: Array<{ name, description, arguments }> }>}
-   */
-  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
-    prompts: Array.from(tools.values()).map(tool => ({
-      name: tool.name,
-      description: tool.description ?? `Prompt for ${tool.name}`,
-      arguments: tool.parsed.vars.map(v => ({
-        name: v.name,
-        description: v.description ?? `Variable: ${v.name}`,
-        required: !v.optional,
-      })),
-    })),
-  }));
-
-  /**
-   * Retrieves a specific prompt with rendered content.
-   * @param {Object} request - MCP request with prompt name and arguments
-   * @returns {Promise<{ description, messages }>} Rendered prompt in message format
-   * @throws {Error} If prompt not found
-   */
-  server.setRequestHandler(GetPromptRequestSchema, async request => {
-    const { name, arguments: args = {} } = request.params;
-    const tool = tools.get(name);
-    if (!tool) throw new Error(`Prompt not found: ${name}`);
-
-    const result = renderTemplate(tool.parsed, args as Record<string, string>);
-    return {
-      description: tool.description ?? `Prompt for ${tool.name}`,
-      messages: [{ role: 'user', content: { type: 'text', text: result } }],
+  // Every file defining each name, including ones shadowed by another file
+  const candidates: Map<string, RegisteredTool[]> = new Map();
+  const entries = Array.isArray(commandsDirs) ? commandsDirs : [commandsDirs];
+  // Directories share one file watcher; other sources are used as given
+  const watcher = createCommandWatcher(
+    entries.filter((entry): entry is string => !isTemplateSource(entry)),
+    { ...options, logger }
+  );
+  // Templates registered from code, taking precedence over every source
+  const registered = createMemorySource({}, { root: REGISTERED_ROOT, logger });
+  const sources: TemplateSource[] = [
+    watcher,
+    ...entries.filter(isTemplateSource),
+    registered,
+  ];
+  // Roots of all sources in the given order, for precedence and naming
+  const dirs = [
+    ...entries.flatMap(entry =>
+      isTemplateSource(entry) ? entry.roots : [entry]
+    ),
+    REGISTERED_ROOT,
+  ];
+  const readTemplate = (filePath: string): string | undefined =>
+    sources
+      .map(source => source.read(filePath))
+      .find(content => content !== undefined);
+  const resolvePartial = createPartialResolver(dirs, readTemplate);
+
+  let listChangedTimer: ReturnType<typeof setTimeout> | undefined;
+  // Commands registered, replaced or removed since the last notification
+  const changedNames: Set<string> = new Set();
+
+  const hooks: {
+    [K in CommandServerEvent]: Set<CommandServerEvents[K]>;
+  } = { register: new Set(), unregister: new Set(), error: new Set() };
+
+  /**
+   * Adds a hook, e.g. `server.on('register', tool => ...)`.
+   * @param {CommandServerEvent} event - 'register', 'unregister' or 'error'
+   * @param {Function} handler - Called synchronously when the event happens
+   * @returns {() => void} Removes the hook again
+   */
+  const on = <K extends CommandServerEvent>(
+    event: K,
+    handler: CommandServerEvents[K]
+  ): (() => void) => {
+    hooks[event].add(handler);
+    return () => {
+      hooks[event].delete(handler);
     };
-  });
+  };
+
+  /**
+   * Calls the hooks of an event. A throwing hook is logged and does not
+   * affect the registry or the other hooks.
+   */
+  const emit = <K extends CommandServerEvent>(
+    event: K,
+    ...args: Parameters<CommandServerEvents[K]>
+  ): void => {
+    hooks[event].forEach(handler => {
+      try {
+        (handler as (..._args: Parameters<CommandServerEvents[K]>) => void)(
+          ...args
+        );
+      } catch (error) {
+        logger.error(`Error in ${event} hook:`, error);
+      }
+    });
+  };
+
+  /**
+   * Tells the client to re-fetch its tool, prompt and resource lists, and
+   * sends `resources/updated` for the subscribed resources of changed
+   * commands. Bursts of file events, such as a branch checkout, are
+   * debounced into one notification. Every connected client is notified.
+   */
+  const notifyListChanged = (): void => {
+    clearTimeout(listChangedTimer);
+    listChangedTimer = setTimeout(() => {
+      listChangedTimer = undefined;
+      const changedUris = new Set(
+        Array.from(changedNames).flatMap(name => [
+          commandUri(name),
+          metadataUri(name),
+        ])
+      );
+      changedNames.clear();
+      Promise.all(
+        Array.from(sessions).flatMap(([session, subscriptions]) => [
+          exposeTools && session.sendToolListChanged(),
+          exposePrompts && session.sendPromptListChanged(),
+          session.sendResourceListChanged(),
+          ...Array.from(subscriptions)
+            .filter(uri => changedUris.has(uri))
+            .map(uri => session.sendResourceUpdated({ uri })),
+        ])
+      ).catch(error => {
+        logger.error('Failed to send list changed notifications:', error);
+      });
+    }, LIST_CHANGED_DELAY_MS);
+  };
+
+  /**
+   * Derives the file-based tool name of a template.
+   * @param {string} filePath - Template file
+   * @returns {string | undefined} Tool name, or undefined for partials and files below the depth
+   */
+  const commandNameOf = (filePath: string): string | undefined =>
+    dirs.map(dir => commandNameFor(dir, filePath, options)).find(Boolean);
+
+  /**
+   * Serves the winning candidate for a name, or removes the name when no
+   * file defines it anymore.
+   * @param {string} name - Tool and prompt name
+   */
+  const selectTool = (name: string): void => {
+    const winner = pickCommand(candidates.get(name) ?? [], dirs, options);
+    const previous = tools.get(name);
+    if (winner) {
+      tools.set(name, winner);
+      if (winner !== previous) {
+        changedNames.add(name);
+        emit('register', winner);
+      }
+    } else {
+      tools.delete(name);
+      candidates.delete(name);
+      if (previous) {
+        changedNames.add(name);
+        emit('unregister', name);
+      }
+    }
+  };
+
+  /**
+   * Removes a file's candidate, whatever name it used, without picking
+   * new winners yet.
+   * @param {string} filePath - Source file of the tool
+   * @returns {string[]} Names the file defined
+   */
+  const removeCandidates = (filePath: string): string[] => {
+    const id = path.resolve(filePath);
+    return Array.from(candidates)
+      .filter(([, list]) =>
+        list.some(tool => path.resolve(tool.filePath) === id)
+      )
+      .map(([name, list]) => {
+        candidates.set(
+          name,
+          list.filter(tool => path.resolve(tool.filePath) !== id)
+        );
+        return name;
+      });
+  };
+
+  /**
+   * Removes a file's candidate, whatever name it used. If another file
+   * defines the same name, that file is served instead.
+   * @param {string} filePath - Source file of the tool
+   */
+  const unregisterFile = (filePath: string): void => {
+    removeCandidates(filePath).forEach(selectTool);
+  };
+
+  /**
+   * Parses a template and registers it under its frontmatter `name`, or
+   * the name derived from its path. A previous registration of the same
+   * file under another name is removed. When another file already defines
+   * the name, the precedence rules pick one and a warning names both.
+   * @param {string} filePath - Source file, used as the id for include tracking
+   * @param {string} content - Template markdown content
+   */
+  const registerTool = (filePath: string, content: string): void => {
+    try {
+      const tool = createRegisteredTool(
+        filePath,
+        content,
+        resolvePartial,
+        commandNameOf(filePath)
+      );
+      tool.parsed.diagnostics
+        .filter(diagnostic => diagnostic.severity === 'error')
+        .forEach(diagnostic =>
+          logger.warn(`Warning: ${formatDiagnostic(diagnostic, filePath)}`)
+        );
+      const id = path.resolve(filePath);
+      const isNew = !candidates
+        .get(tool.name)
+        ?.some(candidate => path.resolve(candidate.filePath) === id);
+
+      // Swap the file's candidate before picking, so a re-parsed command
+      // is never briefly unregistered
+      const previousNames = removeCandidates(filePath);
+      const list = [...(candidates.get(tool.name) ?? []), tool];
+      candidates.set(tool.name, list);
+      new Set([...previousNames, tool.name]).forEach(selectTool);
+
+      const winner = tools.get(tool.name);
+      if (isNew && winner) {
+        list
+          .filter(candidate => candidate !== winner)
+          .forEach(candidate =>
+            logger.warn(
+              `Warning: ${tool.name}: ${winner.filePath} overrides ${candidate.filePath}`
+            )
+          );
+      }
+    } catch (error) {
+      logger.error(`Failed to parse ${filePath}:`, error);
+      emit('error', error, filePath);
+    }
+  };
 
   /**
-   * Monitors file changes and updates tool/prompt registry.
+   * Re-parses every tool that includes or extends the changed file,
+   * including shadowed ones. A newly added file may satisfy a previously
+   * unresolved include or parent, so on 'add' all templates that use
+   * either are re-parsed.
+   * @param {string} event - File event type
+   * @param {string} filePath - Path to the changed .md file
+   * @returns {number} Number of re-parsed tools
+   */
+  const refreshDependents = (event: WatcherEvent, filePath: string): number => {
+    const id = path.resolve(filePath);
+    const dependents = Array.from(candidates.values())
+      .flat()
+      .filter(tool => path.resolve(tool.filePath) !== id)
+      .filter(tool =>
+        event === 'add'
+          ? DEPENDENCY_PATTERN.test(tool.parsed.template)
+          : [...tool.parsed.includes, ...tool.parsed.parents].includes(id)
+      );
+    dependents.forEach(tool =>
+      registerTool(tool.filePath, tool.parsed.template)
+    );
+    return dependents.length;
+  };
+
+  /**
+   * Creates the MCP server for one client, serving the shared registry.
+   * Resources are published whatever `expose` is set to.
+   * @param {Set<string>} subscriptions - Resource URIs the client subscribes to
+   * @returns {Server} Server with the tool and prompt handlers enabled by `expose`
+   */
+  const createSession = (subscriptions: Set<string>): Server => {
+    const session = new Server(
+      { name: 'command-publisher', version: '1.0.0' },
+      {
+        capabilities: {
+          ...(exposeTools && { tools: { listChanged: true } }),
+          ...(exposePrompts && { prompts: { listChanged: true } }),
+          resources: { subscribe: true, listChanged: true },
+        },
+      }
+    );
+
+    /**
+     * Lists the template source and metadata resources of every command.
+     * @returns {Promise<{ resources: Array<{ uri, name, description, mimeType }> }>}
+     */
+    session.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: listCommandResources(tools.values()),
+    }));
+
+    /**
+     * Reads a command's template source or metadata.
+     * @param {Object} request - MCP request with the resource URI
+     * @returns {Promise<{ contents: Array<{ uri, mimeType, text }> }>}
+     * @throws {Error} If no command has the URI
+     */
+    session.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params;
+      const contents = readCommandResource(tools, uri);
+      if (!contents) throw new Error(`Resource not found: ${uri}`);
+      return { contents: [contents] };
+    });
+
+    /**
+     * Sends `resources/updated` whenever the resource's command changes.
+     * URIs of commands that do not exist yet may be subscribed to.
+     */
+    session.setRequestHandler(SubscribeRequestSchema, async request => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    session.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    if (exposeTools) {
+      /**
+       * Lists all registered command tools.
+       * @returns {Promise<{ tools: Array<{ name, title?, description, inputSchema }> }>}
+       */
+      session.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: Array.from(tools.values()).map(tool => ({
+          name: tool.name,
+          ...(tool.title && { title: tool.title }),
+          description: tool.description ?? `Execute ${tool.name}`,
+          inputSchema: tool.parsed.inputSchema as Record<string, unknown>,
+        })),
+      }));
+
+      /**
+       * Executes a command tool with variable substitution.
+       * @param {Object} request - MCP request with tool name and arguments
+       * @returns {Promise<{ content: Array<{ type, text }> }>} Rendered template output
+       * @throws {Error} If tool not found
+       * @throws {McpError} If arguments do not match the tool's inputSchema
+       */
+      session.setRequestHandler(CallToolRequestSchema, async request => {
+        const { name, arguments: args = {} } = request.params;
+        const tool = tools.get(name);
+        if (!tool) throw new Error(`Tool not found: ${name}`);
+
+        const values = resolveArguments(tool, args);
+        const result = renderTemplate(tool.parsed, values);
+        return { content: [{ type: 'text', text: result }] };
+      });
+    }
+
+    if (exposePrompts) {
+      /**
+       * Lists all available prompts (same as tools, different response format).
+       * @returns {Promise<{ prompts: Array<{ name, title?, description, arguments }> }>}
+       */
+      session.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: Array.from(tools.values()).map(tool => ({
+          name: tool.name,
+          ...(tool.title && { title: tool.title }),
+          description: tool.description ?? `Prompt for ${tool.name}`,
+          arguments: toPromptArguments(tool),
+        })),
+      }));
+
+      /**
+       * Retrieves a specific prompt with rendered content.
+       * @param {Object} request - MCP request with prompt name and arguments
+       * @returns {Promise<{ description, messages }>} Rendered prompt in message format
+       * @throws {Error} If prompt not found
+       * @throws {McpError} If arguments do not match the prompt's inputSchema
+       */
+      session.setRequestHandler(GetPromptRequestSchema, async request => {
+        const { name, arguments: args = {} } = request.params;
+        const tool = tools.get(name);
+        if (!tool) throw new Error(`Prompt not found: ${name}`);
+
+        const values = resolveArguments(tool, args);
+        const result = renderTemplate(tool.parsed, values);
+        return {
+          description: tool.description ?? `Prompt for ${tool.name}`,
+          messages: [{ role: 'user', content: { type: 'text', text: result } }],
+        };
+      });
+    }
+
+    return session;
+  };
+
+  /**
+   * Connects a client's transport to a new session, which is dropped again
+   * when the transport closes.
+   * @param {Transport} transport - Transport of one client
+   * @returns {Promise<void>}
+   */
+  const connect = async (transport: Transport): Promise<void> => {
+    const subscriptions: Set<string> = new Set();
+    const session = createSession(subscriptions);
+    session.onclose = () => sessions.delete(session);
+    sessions.set(session, subscriptions);
+    await session.connect(transport);
+  };
+
+  /**
+   * Monitors template changes from every source and updates the tool/prompt
+   * registry.
    * Registers on 'add', updates on 'change', unregisters on 'unlink'.
+   * Files in partial directories, or deeper than the configured depth, are
+   * not registered, but templates that include them are re-parsed. The
+   * client is notified whenever a command changes.
    * @param {string} event - File event type: 'add' | 'change' | 'unlink'
    * @param {string} filePath - Path to the changed .md file
    * @param {string} content - File contents (undefined on 'unlink')
    */
-  watcher.onFileChange(async ({ event, filePath, content }) => {
-    const toolName = path.basename(filePath, '.md');
-    if (event === 'unlink') {
-      tools.delete(toolName);
-      return;
+  const handleChange: FileChangeHandler = ({ event, filePath, content }) => {
+    const isCommand = !!commandNameOf(filePath);
+    if (isCommand) {
+      if (event === 'unlink') {
+        unregisterFile(filePath);
+      } else if (content) {
+        registerTool(filePath, content);
+      }
     }
-    if (!content) return;
-    try {
-      const parsed = parseTemplate(content);
-      const description = extractDescription(content);
-      tools.set(toolName, { name: toolName, description, parsed });
-    } catch (error) {
-      console.error(`Failed to parse ${toolName}:`, error);
+    if (refreshDependents(event, filePath) > 0 || isCommand) {
+      notifyListChanged();
     }
-  });
+  };
+  sources.forEach(source => source.subscribe(handleChange));
 
   /**
    * Starts server and begins watching for file changes.
-   * @param {Transport} transport - MCP transport layer (typically StdioServerTransport)
+   * @param {Transport | HttpOptions} transport - MCP transport for a single client (typically StdioServerTransport), or the port to serve any number of clients over HTTP
    * @returns {Promise<void>}
+   * @throws {Error} If the HTTP port cannot be bound
    */
-  const start = async (transport: Transport): Promise<void> => {
-    await watcher.start();
-    await server.connect(transport);
+  const start = async (transport: Transport | HttpOptions): Promise<void> => {
+    await Promise.all(sources.map(source => source.start()));
+    // The client fetches the initial lists itself
+    clearTimeout(listChangedTimer);
+    changedNames.clear();
+    if ('port' in transport) {
+      httpServer = await listenHttp(transport, connect, logger);
+    } else {
+      await connect(transport);
+    }
   };
 
   /**
-   * Gracefully shuts down server and file watcher.
+   * Gracefully shuts down client sessions, the HTTP server and template
+   * sources.
    * @returns {Promise<void>}
    */
   const stop = async (): Promise<void> => {
-    await watcher.stop();
+    clearTimeout(listChangedTimer);
+    await Promise.all(
+      Array.from(sessions.keys()).map(session => session.close())
+    );
+    if (httpServer) {
+      await closeHttp(httpServer);
+      httpServer = undefined;
+    }
+    await Promise.all(sources.map(source => source.stop()));
   };
 
+  /**
+   * The SSE endpoint clients connect to when serving over HTTP.
+   * @returns {string | undefined} URL such as `http://127.0.0.1:3000/sse`, or undefined otherwise
+   */
+  const url = (): string | undefined => httpServer && sseUrl(httpServer);
+
+  /**
+   * Adds or replaces a template from code. It is registered like a file
+   * named `<name>.md`, so frontmatter `name` still applies, and takes
+   * precedence over every directory and source. Names inside `partials/`
+   * can be included by other templates. Before `start`, templates are kept
+   * until the server starts.
+   * @param {string} name - Command name, or a path such as `partials/sig`
+   * @param {string} source - Template markdown
+   * @returns {Promise<void>}
+   * @throws {Error} If the name escapes the registered templates' directory
+   */
+  const registerTemplate = async (
+    name: string,
+    source: string
+  ): Promise<void> => {
+    await registered.set(name, source);
+  };
+
+  /**
+   * Removes a template added with registerTemplate. A file defining the
+   * same name is served again.
+   * @param {string} name - Name passed to registerTemplate
+   * @returns {Promise<boolean>} Whether the template was registered
+   */
+  const unregisterTemplate = (name: string): Promise<boolean> =>
+    registered.delete(name);
+
   return {
     start,
     stop,
-    _server: server,
+    url,
+    on,
+    registerTemplate,
+    unregisterTemplate,
+    _sessions: sessions,
     _tools: tools,
+    _candidates: candidates,
     _watcher: watcher,
   } as const;
 };
 
 /**
- * Extracts a human-readable description from template content.
- * @param {string} content - Template markdown content
- * @returns {string} Description (max 100 chars) or fallback 'Command'
+ * Validates request arguments against a tool's inputSchema.
+ * @param {RegisteredTool} tool - Tool being invoked
+ * @param {Record<string, unknown>} args - Raw request arguments
+ * @returns {TemplateArguments} Arguments coerced to their declared types
+ * @throws {McpError} InvalidParams listing every violation in `data.issues`
  */
-const extractDescription = (content: string): string => {
-  const lines = content.split('\n');
-  const found = lines.find(line => {
-    const trimmed = line.trim();
-    return (
-      Boolean(trimmed) && !trimmed.startsWith('#') && !trimmed.startsWith('$')
+const resolveArguments = (
+  tool: RegisteredTool,
+  args: Record<string, unknown>
+): TemplateArguments => {
+  const { values, issues } = validateArguments(tool.parsed.inputSchema, args);
+  if (issues.length) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${tool.name}:\n${formatIssues(issues)}`,
+      { issues }
     );
-  });
-  return found?.trim().slice(0, 100) ?? 'Command';
+  }
+  return values;
 };
 
 export { createCommandServer };
+type CommandServer = ReturnType<typeof createCommandServer>;
+
+export type { ServerOptions, CommandServer, CommandServerEvents };
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Template Sources
+ * Where the server gets templates from. The file watcher is the default
+ * source; in-memory sources hold templates registered from code.
+ */
+
+import path from 'path';
+import { createLogger } from './logger.js';
+import type { Logger } from './logger.js';
+import type {
+  FileChangeEvent,
+  FileChangeHandler,
+  WatcherEvent,
+} from './watcher.js';
+
+/**
+ * A set of templates the server loads and keeps up to date. Templates are
+ * identified by paths under one of the source's `roots`, which need not
+ * exist on disk; the roots take part in precedence like directories.
+ */
+type TemplateSource = {
+  /** Directories, real or virtual, holding the templates, lowest precedence first */
+  roots: string[];
+  /** Paths of the templates that may be commands; partials may be left out */
+  list: () => Promise<string[]>;
+  /** Content of a template or partial, read synchronously for includes */
+  read: (filePath: string) => string | undefined;
+  /** Calls the handler on every add, change and unlink; returns an unsubscribe function */
+  subscribe: (handler: FileChangeHandler) => () => void;
+  /** Emits 'add' for every existing template, then starts reporting changes */
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+};
+
+type MemorySourceOptions = {
+  root?: string;
+  logger?: Logger;
+};
+
+const DEFAULT_MEMORY_ROOT = path.resolve('/memory');
+
+/**
+ * Whether a value implements TemplateSource, as opposed to a directory path.
+ * @param {unknown} value - Entry of the server's source list
+ * @returns {boolean} True for template sources
+ */
+const isTemplateSource = (value: unknown): value is TemplateSource =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as TemplateSource).subscribe === 'function';
+
+/**
+ * Creates a source holding templates in memory, for tests and for code
+ * embedding the server. Names are paths relative to the root, such as
+ * `review` or `partials/sig.md`; `.md` is appended when missing.
+ * @param {Record<string, string>} [templates] - Initial templates by name
+ * @param {MemorySourceOptions} [options] - Virtual root directory, `/memory` by default, and the logger for handler errors
+ * @returns {Object} Template source with set and delete methods
+ */
+const createMemorySource = (
+  templates: Record<string, string> = {},
+  options: MemorySourceOptions = {}
+) => {
+  const root = path.resolve(options.root ?? DEFAULT_MEMORY_ROOT);
+  const { logger = createLogger() } = options;
+  const files: Map<string, string> = new Map();
+  const handlers: Set<FileChangeHandler> = new Set();
+  let started = false;
+
+  /**
+   * Maps a template name to its path under the root.
+   * @throws {Error} If the name escapes the root
+   */
+  const pathFor = (name: string): string => {
+    const filePath = path.resolve(
+      root,
+      name.endsWith('.md') ? name : `${name}.md`
+    );
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(
+        `Invalid template name "${name}": must stay inside ${root}`
+      );
+    }
+    return filePath;
+  };
+
+  const emit = async (change: FileChangeEvent): Promise<void> => {
+    if (!started) return;
+    await Promise.all(
+      Array.from(handlers).map(handler =>
+        Promise.resolve(handler(change)).catch(error => {
+          logger.error(`Handler error for ${change.filePath}:`, error);
+        })
+      )
+    );
+  };
+
+  /**
+   * Adds or replaces a template.
+   * @param {string} name - Template name or relative path
+   * @param {string} content - Template markdown
+   * @returns {Promise<string>} Path of the template under the root
+   */
+  const set = async (name: string, content: string): Promise<string> => {
+    const filePath = pathFor(name);
+    const event: WatcherEvent = files.has(filePath) ? 'change' : 'add';
+    files.set(filePath, content);
+    await emit({ event, filePath, content });
+    return filePath;
+  };
+
+  /**
+   * Removes a template.
+   * @param {string} name - Template name or relative path
+   * @returns {Promise<boolean>} Whether the template existed
+   */
+  const remove = async (name: string): Promise<boolean> => {
+    const filePath = pathFor(name);
+    if (!files.delete(filePath)) return false;
+    await emit({ event: 'unlink', filePath });
+    return true;
+  };
+
+  Object.entries(templates).forEach(([name, content]) =>
+    files.set(pathFor(name), content)
+  );
+
+  const source: TemplateSource = {
+    roots: [root],
+    list: async () => Array.from(files.keys()).sort(),
+    read: filePath => files.get(path.resolve(filePath)),
+    subscribe: handler => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    start: async () => {
+      started = true;
+      await Promise.all(
+        Array.from(files).map(([filePath, content]) =>
+          emit({ event: 'add', filePath, content })
+        )
+      );
+    },
+    stop: async () => {
+      started = false;
+    },
+  };
+
+  return { ...source, set, delete: remove } as const;
+};
+
+export { createMemorySource, isTemplateSource };
+export type { TemplateSource, MemorySourceOptions };
@@ -1,3 +1,38 @@
+type ScalarType = 'string' | 'number' | 'integer' | 'boolean';
+
+type VariableType = ScalarType | 'array';
+
+type ScalarValue = string | number | boolean;
+
+type VariableValue = ScalarValue | ScalarValue[];
+
+type TemplateArguments = Record<string, VariableValue | undefined>;
+
+type ItemsSchema = {
+  type: ScalarType;
+  enum?: ScalarValue[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+};
+
+type VariableSchema = {
+  type: VariableType;
+  enum?: ScalarValue[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  items?: ItemsSchema;
+  default?: VariableValue;
+};
+
+type PropertySchema = VariableSchema & { description: string };
+
+type FilterCall = {
+  name: string;
+  args: string[];
+};
+
 type Placeholder = {
   type: 'placeholder';
   name: string;
@@ -5,15 +40,104 @@ type Placeholder = {
   start?: number;
   end?: number;
   optional: boolean;
+  schema: VariableSchema;
+  filters?: FilterCall[];
+};
+
+type ConditionOperator =
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'in'
+  | 'not in';
+
+type Condition = {
+  operator: ConditionOperator;
+  value: ScalarValue | ScalarValue[];
 };
 
 type ConditionalBlock = {
   type: 'block';
   variable: string;
+  condition?: Condition;
+  content: ASTNode[];
+  alternate?: ASTNode[];
+};
+
+type NegatedBlock = {
+  type: 'negated';
+  variable: string;
+  condition?: Condition;
+  content: ASTNode[];
+  alternate?: ASTNode[];
+};
+
+type LoopBlock = {
+  type: 'loop';
+  variable: string;
+  content: ASTNode[];
+  alternate?: ASTNode[];
+};
+
+type LoopVariable = {
+  type: 'loop-variable';
+  name: 'item' | 'index' | 'number';
+  filters?: FilterCall[];
+};
+
+type SectionBlock = {
+  type: 'section';
+  name: string;
   content: ASTNode[];
 };
 
-type ASTNode = string | Placeholder | ConditionalBlock;
+type ASTNode =
+  | string
+  | Placeholder
+  | ConditionalBlock
+  | NegatedBlock
+  | LoopBlock
+  | LoopVariable
+  | SectionBlock;
+
+type DiagnosticSeverity = 'error' | 'warning';
+
+type DiagnosticCode =
+  | 'yaml-error'
+  | 'unclosed-block'
+  | 'mismatched-block'
+  | 'unexpected-else'
+  | 'invalid-condition'
+  | 'unknown-loop-variable'
+  | 'undeclared-placeholder'
+  | 'unused-variable'
+  | 'unresolved-include'
+  | 'circular-include'
+  | 'unresolved-parent'
+  | 'circular-extends'
+  | 'parse-error'
+  | 'invalid-filter'
+  | 'invalid-name'
+  | 'duplicate-name';
+
+type Diagnostic = {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  line: number;
+  column: number;
+  source?: string;
+};
+
+type TemplateMetadata = {
+  name?: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+};
 
 type ParsedTemplate = {
   ast: ASTNode[];
@@ -21,21 +145,93 @@ type ParsedTemplate = {
   template: string;
   inputSchema: {
     type: 'object';
-    properties: Record<string, { type: 'string'; description: string }>;
+    properties: Record<string, PropertySchema>;
     required: string[];
   };
+  includes: string[];
+  parents: string[];
+  diagnostics: Diagnostic[];
+  metadata: TemplateMetadata;
+};
+
+type PartialTemplate = {
+  id: string;
+  content: string;
+};
+
+type ParseOptions = {
+  id?: string;
+  resolvePartial?: (name: string) => PartialTemplate | undefined;
+};
+
+type ScanOptions = {
+  depth?: number;
+  separator?: string;
+  precedence?: 'first' | 'last';
+};
+
+type ExposeMode = 'both' | 'tools' | 'prompts';
+
+type LogLevel = 'silent' | 'error' | 'warn' | 'info';
+
+type TransportMode = 'stdio' | 'http';
+
+type GitSource = {
+  git: string;
+  ref?: string;
+  path?: string;
+  refresh?: number;
+};
+
+type PublisherConfig = ScanOptions & {
+  directories?: string[];
+  sources?: GitSource[];
+  expose?: ExposeMode;
+  logLevel?: LogLevel;
+  transport?: TransportMode;
+  port?: number;
 };
 
 interface RegisteredTool {
   name: string;
+  title?: string;
   description: string;
+  tags: string[];
+  filePath: string;
   parsed: ParsedTemplate;
 }
 
 export type {
   RegisteredTool,
   ParsedTemplate,
+  TemplateMetadata,
+  ParseOptions,
+  PartialTemplate,
+  ScanOptions,
+  ExposeMode,
+  LogLevel,
+  TransportMode,
+  GitSource,
+  PublisherConfig,
   Placeholder,
   ConditionalBlock,
+  NegatedBlock,
+  LoopBlock,
+  LoopVariable,
+  SectionBlock,
+  Condition,
+  ConditionOperator,
+  FilterCall,
   ASTNode,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ScalarType,
+  VariableType,
+  ScalarValue,
+  VariableValue,
+  TemplateArguments,
+  ItemsSchema,
+  VariableSchema,
+  PropertySchema,
 };
@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Argument Validation
+ * Validates and coerces tool/prompt arguments against a template's inputSchema.
+ */
+
+import type {
+  ParsedTemplate,
+  PropertySchema,
+  ScalarType,
+  ScalarValue,
+  TemplateArguments,
+  VariableSchema,
+  VariableValue,
+} from './types.js';
+
+type ValidationIssue = {
+  argument: string;
+  message: string;
+};
+
+type ScalarSchema = Omit<VariableSchema, 'type' | 'items'> & {
+  type: ScalarType;
+};
+
+type ValidationResult = {
+  values: TemplateArguments;
+  issues: ValidationIssue[];
+};
+
+/**
+ * Validates arguments against a generated input schema.
+ * String inputs are coerced to the declared type, since prompt arguments
+ * and many clients only ever send strings.
+ * @param {ParsedTemplate['inputSchema']} schema - Schema produced by parseTemplate
+ * @param {Record<string, unknown>} args - Raw arguments from the MCP request
+ * @returns {ValidationResult} Coerced values and every violation found
+ */
+const validateArguments = (
+  schema: ParsedTemplate['inputSchema'],
+  args: Record<string, unknown>
+): ValidationResult => {
+  const values: TemplateArguments = {};
+  const issues: ValidationIssue[] = [];
+
+  Object.keys(args)
+    .filter(argument => !Object.hasOwn(schema.properties, argument))
+    .forEach(argument =>
+      issues.push({ argument, message: 'Unknown argument' })
+    );
+
+  Object.entries(schema.properties).forEach(([argument, property]) => {
+    const raw = args[argument];
+    const isRequired = schema.required.includes(argument);
+
+    if (raw === undefined || raw === null) {
+      if (isRequired) {
+        issues.push({ argument, message: 'Missing required argument' });
+      }
+      return;
+    }
+
+    // Empty string on an optional field is intentionally null
+    if (raw === '' && !isRequired) {
+      values[argument] = '';
+      return;
+    }
+
+    const { value, errors } = validateValue(raw, property);
+    errors.forEach(message => issues.push({ argument, message }));
+    if (!errors.length) values[argument] = value;
+  });
+
+  return { values, issues };
+};
+
+/**
+ * Validates a single value against a property schema.
+ */
+const validateValue = (
+  raw: unknown,
+  property: PropertySchema
+): { value: VariableValue; errors: string[] } => {
+  const { type } = property;
+  if (type === 'array') {
+    const list = coerceArray(raw);
+    if (!list) return { value: [], errors: ['Expected an array'] };
+
+    const items = property.items ?? { type: 'string' };
+    const coerced = list.map(item => validateScalar(item, items));
+    const errors = coerced.flatMap((result, index) =>
+      result.errors.map(message => `Item ${index}: ${message}`)
+    );
+    return { value: coerced.map(result => result.value), errors };
+  }
+
+  return validateScalar(raw, { ...property, type });
+};
+
+/**
+ * Validates a scalar value, checking type, enum, range and pattern.
+ */
+const validateScalar = (
+  raw: unknown,
+  schema: ScalarSchema
+): { value: ScalarValue; errors: string[] } => {
+  const value = coerceScalar(raw, schema.type);
+  if (value === undefined) {
+    return { value: String(raw), errors: [`Expected ${schema.type}`] };
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`Must be one of: ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`Must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`Must be <= ${schema.maximum}`);
+    }
+  }
+  if (typeof value === 'string' && schema.pattern) {
+    const pattern = compilePattern(schema.pattern);
+    if (pattern && !pattern.test(value)) {
+      errors.push(`Must match pattern ${schema.pattern}`);
+    }
+  }
+
+  return { value, errors };
+};
+
+/**
+ * Coerces a raw value to the declared scalar type.
+ * @returns {ScalarValue | undefined} Coerced value, or undefined if incompatible
+ */
+const coerceScalar = (
+  raw: unknown,
+  type: ScalarType
+): ScalarValue | undefined => {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const value =
+        typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return undefined;
+      }
+      return type === 'integer' && !Number.isInteger(value) ? undefined : value;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true') return true;
+      if (raw === 'false') return false;
+      return undefined;
+    default:
+      return ['string', 'number', 'boolean'].includes(typeof raw)
+        ? String(raw)
+        : undefined;
+  }
+};
+
+/**
+ * Coerces a raw value to a list, accepting arrays, JSON array strings,
+ * and newline or comma separated strings.
+ */
+const coerceArray = (raw: unknown): unknown[] | undefined => {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw !== 'string') return undefined;
+
+  const trimmed = raw.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Not JSON, fall through to separated list
+    }
+  }
+
+  return trimmed
+    .split(trimmed.includes('\n') ? '\n' : ',')
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+const compilePattern = (pattern: string): RegExp | undefined => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Formats validation issues as a single human-readable message.
+ * @param {ValidationIssue[]} issues - Issues returned by validateArguments
+ * @returns {string} One line per issue
+ */
+const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `- ${issue.argument}: ${issue.message}`).join('\n');
+
+export { validateArguments, formatIssues, coerceArray };
+export type { ValidationIssue, ValidationResult };
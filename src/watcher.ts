@@ -1,11 +1,18 @@
 /**
  * @fileoverview File watcher for dynamic command loading
  * Monitors directories for .md files and notifies handlers of changes.
+ * It is the template source behind the server's commands directories.
  */
 
+import { readFileSync } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
 import chokidar from 'chokidar';
+import { createLogger } from './logger.js';
+import type { Logger } from './logger.js';
+import { listCommandFiles } from './registry.js';
+import type { TemplateSource } from './sources.js';
+import type { ScanOptions } from './types.js';
 
 type WatcherEvent = 'add' | 'change' | 'unlink';
 
@@ -17,12 +24,21 @@ type FileChangeEvent = {
 
 type FileChangeHandler = (_change: FileChangeEvent) => void | Promise<void>;
 
+type WatcherOptions = ScanOptions & {
+  logger?: Logger;
+};
+
 /**
  * Creates a file watcher that monitors directories for markdown file changes.
  * @param {string | string[]} commandsDirs - Directory path(s) to watch
+ * @param {WatcherOptions} [options] - Subdirectory depth of the initial load, and the logger for read and handler errors
  * @returns {Object} Watcher instance with onFileChange, start, and stop methods
  */
-const createCommandWatcher = (commandsDirs: string[]) => {
+const createCommandWatcher = (
+  commandsDirs: string[],
+  options: WatcherOptions = {}
+) => {
+  const { logger = createLogger() } = options;
   let watcher: chokidar.FSWatcher | null = null;
   const dirs = Array.isArray(commandsDirs) ? commandsDirs : [commandsDirs];
   const handlers: Set<FileChangeHandler> = new Set();
@@ -35,10 +51,47 @@ const createCommandWatcher = (commandsDirs: string[]) => {
     handlers.add(handler);
   };
 
+  /**
+   * Registers a handler like onFileChange.
+   * @param {FileChangeHandler} handler - Callback for add/change/unlink events
+   * @returns {() => void} Removes the handler again
+   */
+  const subscribe = (handler: FileChangeHandler): (() => void) => {
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  };
+
+  /**
+   * Lists the command files, down to the configured depth.
+   * @returns {Promise<string[]>} File paths, lowest precedence directory first
+   */
+  const list = async (): Promise<string[]> =>
+    (await listCommandFiles(dirs, options)).map(({ filePath }) => filePath);
+
+  /**
+   * Reads a file inside one of the directories.
+   * @param {string} filePath - Template or partial path
+   * @returns {string | undefined} Content, or undefined outside the directories or if missing
+   */
+  const read = (filePath: string): string | undefined => {
+    const resolved = path.resolve(filePath);
+    const inside = dirs.some(dir =>
+      resolved.startsWith(`${path.resolve(dir)}${path.sep}`)
+    );
+    if (!inside) return undefined;
+    try {
+      return readFileSync(resolved, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  };
+
   const notifyHandlers = async (change: FileChangeEvent): Promise<void> => {
     const promises = Array.from(handlers).map(handler =>
       Promise.resolve(handler(change)).catch(error => {
-        console.error(`Handler error for ${change.filePath}:`, error);
+        logger.error(`Handler error for ${change.filePath}:`, error);
       })
     );
     await Promise.all(promises);
@@ -52,7 +105,7 @@ const createCommandWatcher = (commandsDirs: string[]) => {
       event === 'unlink'
         ? undefined
         : await fs.readFile(filePath, 'utf-8').catch(error => {
-            console.error(`Failed to read file ${filePath}:`, error);
+            logger.error(`Failed to read file ${filePath}:`, error);
             return undefined;
           });
     await notifyHandlers({ event, filePath, content });
@@ -66,26 +119,20 @@ const createCommandWatcher = (commandsDirs: string[]) => {
     // Ensure all directories exist
     await Promise.all(dirs.map(dir => fs.mkdir(dir, { recursive: true })));
 
-    // Load existing .md files
+    // Load existing command files, down to the configured depth
     await Promise.all(
-      dirs.map(async dir => {
+      (await list()).map(async filePath => {
         try {
-          const files = await fs.readdir(dir);
-          const mdFiles = files.filter(f => f.endsWith('.md'));
-          const reads = mdFiles.map(async file => {
-            const filePath = path.join(dir, file);
-            const content = await fs.readFile(filePath, 'utf-8');
-            await notifyHandlers({ event: 'add', filePath, content });
-          });
-          await Promise.all(reads);
+          const content = await fs.readFile(filePath, 'utf-8');
+          await notifyHandlers({ event: 'add', filePath, content });
         } catch (error) {
-          console.error(`Failed to read directory ${dir}:`, error);
+          logger.error(`Failed to read file ${filePath}:`, error);
         }
       })
     );
 
-    // Watch for future changes
-    const patterns = dirs.map(dir => path.join(dir, '*.md'));
+    // Watch for future changes, including partials in subdirectories
+    const patterns = dirs.map(dir => path.join(dir, '**/*.md'));
     watcher = chokidar.watch(patterns, {
       persistent: true,
       ignoreInitial: true,
@@ -109,8 +156,21 @@ const createCommandWatcher = (commandsDirs: string[]) => {
     }
   };
 
-  return { onFileChange, start, stop };
+  return {
+    roots: dirs,
+    list,
+    read,
+    subscribe,
+    onFileChange,
+    start,
+    stop,
+  } satisfies TemplateSource & { onFileChange: typeof onFileChange };
 };
 
 export { createCommandWatcher };
-export type { FileChangeHandler, FileChangeEvent, WatcherEvent };
+export type {
+  FileChangeHandler,
+  FileChangeEvent,
+  WatcherEvent,
+  WatcherOptions,
+};
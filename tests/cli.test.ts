@@ -0,0 +1,403 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  parseServerArgs,
+  reportCliError,
+  resolveConfig,
+  runCli,
+} from '../src/cli.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('CLI', () => {
+  let testDir: string;
+  let log: ReturnType<typeof vi.spyOn>;
+  let error: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-cli-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('resolveConfig', () => {
+    let home: string;
+    let project: string;
+
+    beforeEach(async () => {
+      home = path.join(testDir, 'home');
+      project = path.join(testDir, 'project');
+      await fs.mkdir(path.join(project, '.cursor'), { recursive: true });
+      vi.spyOn(os, 'homedir').mockReturnValue(home);
+      vi.spyOn(process, 'cwd').mockReturnValue(project);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('defaults to the global and project directories', async () => {
+      expect(await resolveConfig({}, {})).toEqual({
+        directories: [
+          path.join(home, '.cursor/published'),
+          path.join(project, '.cursor/published'),
+        ],
+      });
+    });
+
+    it('lists the default directories once when run from home', async () => {
+      vi.spyOn(process, 'cwd').mockReturnValue(home);
+      expect((await resolveConfig({}, {})).directories).toEqual([
+        path.join(home, '.cursor/published'),
+      ]);
+      expect(
+        (await resolveConfig({ directories: ['/a', '/b', '/a/'] }, {}))
+          .directories
+      ).toEqual(['/a', '/b']);
+    });
+
+    it('splits COMMANDS_DIR on commas', async () => {
+      const config = await resolveConfig({}, { COMMANDS_DIR: ' /a, ,/b ' });
+      expect(config.directories).toEqual(['/a', '/b']);
+    });
+
+    it('lets flags override the environment and config files', async () => {
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.yaml'),
+        'depth: 1\nseparator: "-"\nexpose: tools\ndirectories: [published]\n'
+      );
+      const config = await resolveConfig(
+        { separator: '_' },
+        { COMMANDS_SEPARATOR: '.', COMMANDS_PRECEDENCE: 'first' }
+      );
+      expect(config).toEqual({
+        directories: [path.join(project, '.cursor/published')],
+        depth: 1,
+        separator: '_',
+        precedence: 'first',
+        expose: 'tools',
+      });
+    });
+
+    it('loads git source checkouts before the directories', async () => {
+      vi.stubEnv('XDG_CACHE_HOME', path.join(testDir, 'cache'));
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.json'),
+        '{"sources": [{"git": "../../prompts", "path": "library"}]}'
+      );
+
+      const { directories } = await resolveConfig({}, {});
+      expect(directories).toHaveLength(3);
+      expect(directories[0]).toMatch(
+        new RegExp(
+          `^${path.join(testDir, 'cache/cursor-command-publisher/git/prompts-')}[0-9a-f]{12}/library$`
+        )
+      );
+    });
+
+    it('rejects invalid flags', async () => {
+      await expect(resolveConfig({ depth: -1 }, {})).rejects.toThrow(
+        'Invalid config in command line:\n  - Invalid depth -1'
+      );
+    });
+  });
+
+  describe('parseServerArgs', () => {
+    it('maps server flags to config overrides', () => {
+      expect(
+        parseServerArgs([
+          '--dir',
+          'a',
+          '--dir',
+          'b',
+          '--depth',
+          '2',
+          '--expose',
+          'prompts',
+          '--log-level',
+          'error',
+          '--transport',
+          'http',
+          '--port',
+          '8080',
+        ])
+      ).toEqual({
+        directories: ['a', 'b'],
+        depth: 2,
+        expose: 'prompts',
+        logLevel: 'error',
+        transport: 'http',
+        port: 8080,
+      });
+      expect(parseServerArgs([])).toEqual({});
+      expect(() => parseServerArgs(['--verbose'])).toThrow(TypeError);
+    });
+  });
+
+  describe('reportCliError', () => {
+    it('prints startup errors without a stack trace', () => {
+      let usageError: unknown;
+      try {
+        parseServerArgs(['lnit']);
+      } catch (thrown) {
+        usageError = thrown;
+      }
+      expect(reportCliError(usageError)).toBe(2);
+      expect(error).toHaveBeenLastCalledWith(
+        expect.stringMatching(/^Unexpected argument 'lnit'.*\n\nUsage:/s)
+      );
+
+      expect(reportCliError(new Error('Invalid config in x'))).toBe(1);
+      expect(error).toHaveBeenLastCalledWith('Invalid config in x');
+    });
+  });
+
+  describe('lint', () => {
+    it('exits 0 when there are no errors', async () => {
+      await fs.writeFile(path.join(testDir, 'hello.md'), 'Hi #{name}');
+      expect(await runCli(['lint', testDir])).toBe(0);
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining('0 error(s), 1 warning(s)')
+      );
+    });
+
+    it('exits 1 on warnings with --strict', async () => {
+      await fs.writeFile(path.join(testDir, 'hello.md'), 'Hi #{name}');
+      expect(await runCli(['lint', '--strict', testDir])).toBe(1);
+    });
+
+    it('exits 1 on errors and prints JSON with --json', async () => {
+      await fs.writeFile(path.join(testDir, 'open.md'), '#{?flag}never closed');
+      expect(await runCli(['lint', testDir, '--json'])).toBe(1);
+
+      const output = JSON.parse(String(log.mock.calls[0]?.[0]));
+      expect(output.errorCount).toBe(1);
+      expect(output.files[0].diagnostics[0].code).toBe('unclosed-block');
+    });
+
+    it('prints usage for unknown options', async () => {
+      expect(await runCli(['lint', '--bogus'])).toBe(2);
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Usage:'));
+    });
+  });
+
+  describe('render', () => {
+    beforeEach(async () => {
+      vi.stubEnv('COMMANDS_DIR', testDir);
+      await fs.mkdir(path.join(testDir, 'partials'));
+      await fs.writeFile(path.join(testDir, 'partials/sig.md'), '-- bot');
+      await fs.writeFile(
+        path.join(testDir, 'greet.md'),
+        `---
+name: "who to greet"
+tone:
+  enum: [warm, formal]
+  default: warm
+---
+Hello #{name} (#{tone})
+#{>partials/sig}`
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('renders a command by name with --var values', async () => {
+      expect(await runCli(['render', 'greet', '--var', 'name=Ann=Lee'])).toBe(
+        0
+      );
+      expect(log).toHaveBeenCalledWith('Hello Ann=Lee (warm)\n-- bot');
+    });
+
+    it('renders a template file directly', async () => {
+      const filePath = path.join(testDir, 'greet.md');
+      expect(await runCli(['render', filePath, '--var', 'name=Bo'])).toBe(0);
+      expect(log).toHaveBeenCalledWith('Hello Bo (warm)\n-- bot');
+    });
+
+    it('reads a vars file, with --var taking precedence', async () => {
+      const varsFile = path.join(testDir, 'vars.json');
+      await fs.writeFile(varsFile, '{"name": "File", "tone": "formal"}');
+      expect(
+        await runCli([
+          'render',
+          'greet',
+          '--vars-file',
+          varsFile,
+          '--var',
+          'name=Flag',
+        ])
+      ).toBe(0);
+      expect(log).toHaveBeenCalledWith('Hello Flag (formal)\n-- bot');
+    });
+
+    it('fails on missing or invalid variables by default', async () => {
+      expect(await runCli(['render', 'greet'])).toBe(1);
+      expect(error).toHaveBeenCalledWith(
+        'Invalid arguments for greet:\n- name: Missing required argument'
+      );
+
+      expect(
+        await runCli(['render', 'greet', '--var', 'name=A', '--var', 'tone=x'])
+      ).toBe(1);
+      expect(error).toHaveBeenLastCalledWith(
+        'Invalid arguments for greet:\n- tone: Must be one of: warm, formal'
+      );
+    });
+
+    it('keeps or empties missing variables with --missing', async () => {
+      expect(await runCli(['render', 'greet', '--missing=keep'])).toBe(0);
+      expect(log).toHaveBeenLastCalledWith('Hello #{name} (warm)\n-- bot');
+
+      expect(await runCli(['render', 'greet', '--missing=empty'])).toBe(0);
+      expect(log).toHaveBeenLastCalledWith('Hello  (warm)\n-- bot');
+    });
+
+    it('reports unknown commands', async () => {
+      expect(await runCli(['render', 'nope'])).toBe(1);
+      expect(error).toHaveBeenCalledWith('Command not found: nope');
+    });
+
+    it('rejects malformed flags', async () => {
+      expect(await runCli(['render', 'greet', '--var', 'name'])).toBe(2);
+      expect(await runCli(['render', 'greet', '--missing=skip'])).toBe(2);
+      expect(await runCli(['render'])).toBe(2);
+    });
+  });
+
+  describe('list and inspect', () => {
+    beforeEach(async () => {
+      vi.stubEnv('COMMANDS_DIR', testDir);
+      await fs.writeFile(
+        path.join(testDir, 'greet.md'),
+        '---\nname: "who"\n---\nHello #{name}'
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('lists commands as a table or JSON', async () => {
+      expect(await runCli(['list'])).toBe(0);
+      expect(String(log.mock.calls[0]?.[0])).toMatch(/^NAME/);
+
+      expect(await runCli(['list', '--json'])).toBe(0);
+      const output = JSON.parse(String(log.mock.calls[1]?.[0]));
+      expect(output[0]).toMatchObject({ name: 'greet', shadowed: [] });
+    });
+
+    it('inspects a command as text or JSON', async () => {
+      expect(await runCli(['inspect', 'greet'])).toBe(0);
+      expect(String(log.mock.calls[0]?.[0])).toContain('Input schema:');
+
+      expect(await runCli(['inspect', 'greet', '--json'])).toBe(0);
+      const output = JSON.parse(String(log.mock.calls[1]?.[0]));
+      expect(output.inputSchema.required).toEqual(['name']);
+      expect(output.outline).toEqual(['text (6 chars)', '#{name}']);
+    });
+
+    it('reports unknown commands to inspect', async () => {
+      expect(await runCli(['inspect', 'nope'])).toBe(1);
+      expect(error).toHaveBeenCalledWith('Command not found: nope');
+      expect(await runCli(['inspect'])).toBe(2);
+    });
+  });
+
+  describe('sync', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('checks out git sources for the other commands', async () => {
+      const repo = path.join(testDir, 'prompts');
+      const git = (...args: string[]) =>
+        execFileSync(
+          'git',
+          [
+            '-c',
+            'user.name=Test',
+            '-c',
+            'user.email=test@example.com',
+            ...args,
+          ],
+          { cwd: repo }
+        );
+      await fs.mkdir(path.join(testDir, '.cursor'), { recursive: true });
+      await fs.mkdir(repo);
+      await fs.writeFile(path.join(repo, 'shared.md'), 'Shared');
+      git('init', '--quiet');
+      git('add', '-A');
+      git('commit', '--quiet', '-m', 'Add shared');
+      await fs.writeFile(
+        path.join(testDir, '.cursor/publisher.config.yaml'),
+        'sources:\n  - git: ../prompts\ndirectories: []\n'
+      );
+      vi.spyOn(process, 'cwd').mockReturnValue(testDir);
+      vi.stubEnv('XDG_CACHE_HOME', path.join(testDir, 'cache'));
+
+      expect(await runCli(['sync'])).toBe(0);
+      expect(String(log.mock.calls[0]?.[0])).toMatch(
+        new RegExp(`^${repo}@HEAD -> `)
+      );
+
+      expect(await runCli(['list', '--json'])).toBe(0);
+      const output = JSON.parse(String(log.mock.calls[1]?.[0]));
+      expect(output.map((command: { name: string }) => command.name)).toEqual([
+        'shared',
+      ]);
+    });
+
+    it('fails without git sources', async () => {
+      vi.spyOn(process, 'cwd').mockReturnValue(testDir);
+      expect(await runCli(['sync'])).toBe(1);
+      expect(error).toHaveBeenCalledWith('No git sources configured');
+    });
+  });
+
+  describe('new', () => {
+    it('rejects invalid names and conflicting flags', async () => {
+      expect(await runCli(['new', 'bad name'])).toBe(1);
+      expect(error).toHaveBeenCalledWith(
+        'Invalid command name "bad name": use 1-64 letters, digits, "_", "-" or "."'
+      );
+      expect(await runCli(['new', 'ok', '--global', '--project'])).toBe(2);
+      expect(await runCli(['new'])).toBe(2);
+    });
+
+    it('refuses to replace an existing project template', async () => {
+      vi.spyOn(process, 'cwd').mockReturnValue(testDir);
+      await fs.mkdir(path.join(testDir, '.cursor/published'), {
+        recursive: true,
+      });
+      await fs.writeFile(
+        path.join(testDir, '.cursor/published/taken.md'),
+        'Existing'
+      );
+
+      expect(await runCli(['new', 'taken'])).toBe(1);
+      expect(error).toHaveBeenCalledWith(
+        `${path.join(testDir, '.cursor/published/taken.md')} already exists`
+      );
+    });
+  });
+
+  it('prints usage for unknown commands', async () => {
+    expect(await runCli(['frobnicate'])).toBe(2);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Usage:'));
+  });
+});
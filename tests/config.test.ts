@@ -0,0 +1,198 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  configFromEnv,
+  loadConfigFiles,
+  mergeConfigs,
+  readConfigFile,
+  validateConfig,
+} from '../src/config.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('Config', () => {
+  let base: string;
+  let home: string;
+  let project: string;
+
+  beforeEach(async () => {
+    base = path.join(
+      __dirname,
+      `../.test-config-${Date.now()}-${Math.random()}`
+    );
+    home = path.join(base, 'home');
+    project = path.join(base, 'project');
+    await fs.mkdir(path.join(home, '.cursor'), { recursive: true });
+    await fs.mkdir(path.join(project, '.cursor'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  describe('readConfigFile', () => {
+    it('returns an empty config without a file', async () => {
+      expect(await readConfigFile(project)).toEqual({});
+    });
+
+    it('reads YAML and resolves directories against .cursor', async () => {
+      vi.spyOn(os, 'homedir').mockReturnValue(home);
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.yaml'),
+        `directories:
+  - published
+  - ~/shared
+  - /abs/commands
+depth: 2
+expose: prompts
+`
+      );
+
+      expect(await readConfigFile(project)).toEqual({
+        directories: [
+          path.join(project, '.cursor/published'),
+          path.join(home, 'shared'),
+          '/abs/commands',
+        ],
+        depth: 2,
+        expose: 'prompts',
+      });
+    });
+
+    it('resolves local git repositories but not URLs', async () => {
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.yaml'),
+        `sources:
+  - git: ../prompts.git
+    ref: main
+  - git: https://example.com/prompts.git
+    path: library
+`
+      );
+
+      expect((await readConfigFile(project)).sources).toEqual([
+        { git: path.join(project, 'prompts.git'), ref: 'main' },
+        { git: 'https://example.com/prompts.git', path: 'library' },
+      ]);
+    });
+
+    it('prefers the JSON file over the YAML one', async () => {
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.json'),
+        '{"separator": "."}'
+      );
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.yaml'),
+        'separator: "-"'
+      );
+
+      expect(await readConfigFile(project)).toEqual({ separator: '.' });
+    });
+
+    it('reports the file for syntax errors', async () => {
+      const filePath = path.join(project, '.cursor/publisher.config.json');
+      await fs.writeFile(filePath, '{"depth": [1');
+
+      await expect(readConfigFile(project)).rejects.toThrow(
+        `Invalid config in ${filePath}:`
+      );
+    });
+  });
+
+  describe('loadConfigFiles', () => {
+    it('lets the project file override the global one key by key', async () => {
+      await fs.writeFile(
+        path.join(home, '.cursor/publisher.config.yaml'),
+        'depth: 1\nlogLevel: warn\n'
+      );
+      await fs.writeFile(
+        path.join(project, '.cursor/publisher.config.yaml'),
+        'depth: 3\n'
+      );
+
+      expect(await loadConfigFiles({ global: home, project })).toEqual({
+        depth: 3,
+        logLevel: 'warn',
+      });
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('lists every problem', () => {
+      expect(() =>
+        validateConfig(
+          {
+            dirs: ['a'],
+            directories: 'a',
+            depth: 1.5,
+            precedence: 'middle',
+            expose: 'resources',
+            logLevel: 'debug',
+            transport: 'ws',
+            port: 70000,
+            sources: [{ git: '' }],
+          },
+          'test.yaml'
+        )
+      ).toThrow(
+        `Invalid config in test.yaml:
+  - unknown key "dirs"
+  - directories must be a list of paths
+  - sources[0].git must be a repository path or URL
+  - expose must be one of both, tools, prompts
+  - logLevel must be one of silent, error, warn, info
+  - transport must be one of stdio, http
+  - port must be an integer from 0 to 65535
+  - Invalid depth 1.5: use a non-negative integer
+  - Invalid precedence "middle": use "first" or "last"`
+      );
+    });
+
+    it('rejects values that are not objects', () => {
+      expect(() => validateConfig(['a'], 'test.yaml')).toThrow(
+        'Invalid config in test.yaml: expected an object'
+      );
+    });
+  });
+
+  describe('configFromEnv', () => {
+    it('reads the COMMANDS_* variables', () => {
+      expect(
+        configFromEnv({
+          COMMANDS_DIR: ' /a, ,/b ',
+          COMMANDS_DEPTH: '2',
+          COMMANDS_SEPARATOR: '-',
+          COMMANDS_PRECEDENCE: 'first',
+        })
+      ).toEqual({
+        directories: ['/a', '/b'],
+        depth: 2,
+        separator: '-',
+        precedence: 'first',
+      });
+      expect(configFromEnv({ COMMANDS_DIR: ' , ' })).toEqual({});
+    });
+
+    it('rejects invalid variables', () => {
+      expect(() => configFromEnv({ COMMANDS_DEPTH: 'deep' })).toThrow(
+        'Invalid config in environment:\n  - Invalid depth NaN'
+      );
+    });
+  });
+
+  describe('mergeConfigs', () => {
+    it('lets later configs win and ignores undefined values', () => {
+      expect(
+        mergeConfigs(
+          { depth: 1, separator: '-' },
+          { depth: 2, separator: undefined },
+          {}
+        )
+      ).toEqual({ depth: 2, separator: '-' });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Creates a client transport for the server's HTTP mode, reading the SSE
+ * stream with fetch since Node has no EventSource.
+ */
+export function createSSEClientTransport(url: string): Transport {
+  const controller = new AbortController();
+  let endpoint: URL | undefined;
+
+  const transport: Transport = {
+    start: async () => {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.body) throw new Error(`No SSE stream: ${response.status}`);
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+
+      let connected: () => void = () => {};
+      const ready = new Promise<void>(resolve => {
+        connected = resolve;
+      });
+
+      const read = async (): Promise<void> => {
+        let buffer = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += value;
+          const events = buffer.split('\n\n');
+          buffer = events.pop() ?? '';
+          events.forEach(block => {
+            const fields = Object.fromEntries(
+              block.split('\n').map(line => {
+                const index = line.indexOf(': ');
+                return [line.slice(0, index), line.slice(index + 2)];
+              })
+            );
+            if (fields.event === 'endpoint') {
+              endpoint = new URL(fields.data, url);
+              connected();
+            } else if (fields.event === 'message') {
+              transport.onmessage?.(JSON.parse(fields.data));
+            }
+          });
+        }
+      };
+      read()
+        .catch(() => {})
+        .finally(() => transport.onclose?.());
+
+      await ready;
+    },
+    send: async (message: JSONRPCMessage) => {
+      if (!endpoint) throw new Error('Not connected');
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(message),
+      });
+      if (!response.ok) throw new Error(await response.text());
+    },
+    close: async () => {
+      controller.abort();
+    },
+  };
+  return transport;
+}
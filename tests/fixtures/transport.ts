@@ -0,0 +1,30 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+type LinkedTransport = Transport & { peer?: LinkedTransport };
+
+const createTransport = (): LinkedTransport => {
+  const transport: LinkedTransport = {
+    start: async () => {},
+    send: async (message: JSONRPCMessage) => {
+      // Deliver asynchronously, like a real transport would
+      setImmediate(() => transport.peer?.onmessage?.(message));
+    },
+    close: async () => {
+      transport.onclose?.();
+    },
+  };
+  return transport;
+};
+
+/**
+ * Creates a pair of in-memory transports wired to each other,
+ * for connecting a Client to the command server inside a test.
+ */
+export function createLinkedTransports(): [Transport, Transport] {
+  const clientTransport = createTransport();
+  const serverTransport = createTransport();
+  clientTransport.peer = serverTransport;
+  serverTransport.peer = clientTransport;
+  return [clientTransport, serverTransport];
+}
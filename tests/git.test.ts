@@ -0,0 +1,191 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createGitSync,
+  gitSourceDirectory,
+  isLocalRepository,
+  syncGitSource,
+  validateGitSource,
+} from '../src/git.ts';
+import { createLogger } from '../src/logger.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('Git sources', () => {
+  let base: string;
+  let remote: string;
+  let work: string;
+  let cacheDir: string;
+
+  const git = (cwd: string, ...args: string[]): string =>
+    execFileSync(
+      'git',
+      ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+      { cwd, encoding: 'utf-8' }
+    );
+
+  const commit = async (
+    files: Record<string, string | null>,
+    message: string
+  ): Promise<void> => {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(work, name);
+      if (content === null) {
+        await fs.rm(filePath);
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content);
+      }
+    }
+    git(work, 'add', '-A');
+    git(work, 'commit', '--quiet', '-m', message);
+    git(work, 'push', '--quiet', '--all');
+    git(work, 'push', '--quiet', '--tags');
+  };
+
+  beforeEach(async () => {
+    base = path.join(__dirname, `../.test-git-${Date.now()}-${Math.random()}`);
+    remote = path.join(base, 'prompts.git');
+    work = path.join(base, 'work');
+    cacheDir = path.join(base, 'cache');
+    await fs.mkdir(base, { recursive: true });
+    git(base, 'init', '--quiet', '--bare', '--initial-branch=main', remote);
+    git(base, 'clone', '--quiet', remote, work);
+    git(work, 'checkout', '--quiet', '-b', 'main');
+    await commit(
+      { 'review.md': 'Review v1', 'library/explain.md': 'Explain' },
+      'Initial commands'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('checks out a repository into the cache', async () => {
+    const dir = await syncGitSource({ git: remote }, cacheDir);
+
+    expect(dir).toBe(gitSourceDirectory({ git: remote }, cacheDir));
+    expect(dir.startsWith(path.join(cacheDir, 'git', 'prompts-'))).toBe(true);
+    expect(await fs.readFile(path.join(dir, 'review.md'), 'utf-8')).toBe(
+      'Review v1'
+    );
+    // Only a gitfile is left in the checkout, not the object database
+    expect((await fs.stat(path.join(dir, '.git'))).isFile()).toBe(true);
+  });
+
+  it('accepts file:// URLs and a subpath', async () => {
+    const source = { git: `file://${remote}`, path: 'library' };
+    const dir = await syncGitSource(source, cacheDir);
+
+    expect(await fs.readdir(dir)).toEqual(['explain.md']);
+  });
+
+  it('follows the branch on refresh, removing deleted files', async () => {
+    const dir = await syncGitSource({ git: remote, ref: 'main' }, cacheDir);
+    await commit(
+      { 'review.md': 'Review v2', 'library/explain.md': null },
+      'v2'
+    );
+
+    await syncGitSource({ git: remote, ref: 'main' }, cacheDir);
+    expect(await fs.readFile(path.join(dir, 'review.md'), 'utf-8')).toBe(
+      'Review v2'
+    );
+    await expect(fs.stat(path.join(dir, 'library'))).rejects.toThrow();
+  });
+
+  it('pins a tag', async () => {
+    git(work, 'tag', 'v1');
+    git(work, 'push', '--quiet', '--tags');
+    await commit({ 'review.md': 'Review v2' }, 'v2');
+
+    const dir = await syncGitSource({ git: remote, ref: 'v1' }, cacheDir);
+    expect(await fs.readFile(path.join(dir, 'review.md'), 'utf-8')).toBe(
+      'Review v1'
+    );
+  });
+
+  it('reports unknown refs and repositories', async () => {
+    await expect(
+      syncGitSource({ git: remote, ref: 'nope' }, cacheDir)
+    ).rejects.toThrow(/^git fetch failed: /);
+    await expect(
+      syncGitSource({ git: path.join(base, 'missing.git') }, cacheDir)
+    ).rejects.toThrow(/^git clone failed: /);
+  });
+
+  it('never passes a ref or repository to git as an option', async () => {
+    const marker = path.join(base, 'pwned');
+    const ref = `--upload-pack=touch ${marker}; git-upload-pack`;
+
+    await expect(syncGitSource({ git: remote, ref }, cacheDir)).rejects.toThrow(
+      /^git fetch failed: /
+    );
+    await expect(fs.stat(marker)).rejects.toThrow();
+    expect(validateGitSource({ git: remote, ref }, 0)).toEqual([
+      'sources[0].ref must be a branch, tag or commit',
+    ]);
+    expect(validateGitSource({ git: '--upload-pack=sh' }, 0)).toEqual([
+      'sources[0].git must be a repository path or URL',
+    ]);
+  });
+
+  describe('createGitSync', () => {
+    it('logs failures and refreshes on an interval', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const sync = createGitSync(
+        [
+          { git: remote, refresh: 0.2 },
+          { git: path.join(base, 'missing.git') },
+        ],
+        { cacheDir, logger: createLogger() }
+      );
+
+      await sync.start();
+      expect(error).toHaveBeenCalledWith(
+        `Failed to sync ${path.join(base, 'missing.git')}:`,
+        expect.stringMatching(/^git clone failed: /)
+      );
+
+      await commit({ 'review.md': 'Review v2' }, 'v2');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      await sync.stop();
+
+      const dir = gitSourceDirectory({ git: remote }, cacheDir);
+      expect(await fs.readFile(path.join(dir, 'review.md'), 'utf-8')).toBe(
+        'Review v2'
+      );
+      expect(await sync.refresh()).toBe(1);
+      error.mockRestore();
+    });
+  });
+
+  describe('validateGitSource', () => {
+    it('lists the problems of an entry', () => {
+      expect(validateGitSource({ git: remote, ref: 'main' }, 0)).toEqual([]);
+      expect(
+        validateGitSource({ repo: 'x', path: '../up', refresh: -1 }, 2)
+      ).toEqual([
+        'sources[2] has unknown key "repo"',
+        'sources[2].git must be a repository path or URL',
+        'sources[2].path must be a path inside the repository',
+        'sources[2].refresh must be a number of seconds',
+      ]);
+      expect(validateGitSource('x', 0)).toEqual([
+        'sources[0] must be an object with a "git" repository',
+      ]);
+    });
+  });
+
+  it('tells local paths from URLs', () => {
+    expect(isLocalRepository('../prompts')).toBe(true);
+    expect(isLocalRepository('/srv/prompts.git')).toBe(true);
+    expect(isLocalRepository('file:///srv/prompts.git')).toBe(false);
+    expect(isLocalRepository('https://example.com/prompts.git')).toBe(false);
+    expect(isLocalRepository('git@example.com:team/prompts.git')).toBe(false);
+  });
+});
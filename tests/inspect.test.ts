@@ -0,0 +1,127 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  formatCommandTable,
+  formatInspection,
+  inspectCommand,
+  listCommands,
+} from '../src/inspect.ts';
+import { resolveCommand } from '../src/registry.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('Inspect', () => {
+  let base: string;
+  let globalDir: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    base = path.join(
+      __dirname,
+      `../.test-inspect-${Date.now()}-${Math.random()}`
+    );
+    globalDir = path.join(base, 'global');
+    projectDir = path.join(base, 'project');
+    await fs.mkdir(path.join(globalDir, 'partials'), { recursive: true });
+    await fs.mkdir(projectDir, { recursive: true });
+    await fs.writeFile(path.join(globalDir, 'partials/sig.md'), 'Signed');
+    await fs.writeFile(path.join(globalDir, 'greet.md'), 'Say hi');
+    await fs.writeFile(path.join(projectDir, 'greet.md'), 'Say hello');
+    await fs.writeFile(
+      path.join(projectDir, 'review.md'),
+      `---
+code: "the code"
+level?:
+  enum: [low, high]
+  default: low
+tags?:
+  type: array
+---
+#{?level == "high"}Strictly #{:else}Loosely #{/level}review:
+#{code | indent 2}
+#{*tags}- #{@item | upper}#{/tags}
+#{>partials/sig}`
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('lists the winning file for each name', async () => {
+    const commands = await listCommands([globalDir, projectDir]);
+    expect(commands).toEqual([
+      {
+        name: 'greet',
+        filePath: path.join(projectDir, 'greet.md'),
+        description: 'Say hello',
+        tags: [],
+        variables: [],
+        shadowed: [path.join(globalDir, 'greet.md')],
+      },
+      expect.objectContaining({
+        name: 'review',
+        variables: [
+          { name: 'level', type: 'string', required: false },
+          { name: 'code', type: 'string', required: true },
+          { name: 'tags', type: 'array', required: false },
+        ],
+        shadowed: [],
+      }),
+    ]);
+  });
+
+  it('formats the list as a table with overrides', async () => {
+    const commands = await listCommands([globalDir, projectDir]);
+    const lines = formatCommandTable(commands).split('\n');
+    expect(lines[0]).toMatch(/^NAME\s+VARIABLES\s+SOURCE\s+DESCRIPTION$/);
+    expect(lines[1]).toMatch(/^greet\s+-\s+\S+greet\.md\s+Say hello$/);
+    expect(lines[2]).toMatch(/^review\s+level\?, code, tags\?\s+\S+review\.md/);
+    expect(lines.slice(3)).toEqual([
+      '',
+      `greet: ${path.join(projectDir, 'greet.md')} overrides ${path.join(globalDir, 'greet.md')}`,
+    ]);
+    expect(formatCommandTable([])).toBe('No commands found');
+  });
+
+  it('inspects schema, prompt arguments and outline', async () => {
+    const tool = await resolveCommand('review', [globalDir, projectDir]);
+    const inspection = inspectCommand(tool!);
+
+    expect(inspection.inputSchema.required).toEqual(['code']);
+    expect(inspection.promptArguments).toEqual([
+      { name: 'level', description: '', required: false, default: 'low' },
+      { name: 'code', description: 'the code', required: true },
+      { name: 'tags', description: '', required: false },
+    ]);
+    expect(inspection.includes).toEqual([
+      path.join(globalDir, 'partials/sig.md'),
+    ]);
+    expect(inspection.outline).toEqual([
+      'if level == "high"',
+      '  text (9 chars)',
+      'else',
+      '  text (8 chars)',
+      'text (8 chars)',
+      '#{code | indent 2}',
+      'text (1 chars)',
+      'each tags',
+      '  text (2 chars)',
+      '  #{@item | upper}',
+      'text (1 chars)',
+      'text (6 chars)',
+    ]);
+  });
+
+  it('formats an inspection report', async () => {
+    const tool = await resolveCommand('greet', [globalDir]);
+    const report = formatInspection(inspectCommand(tool!));
+    expect(report).toContain(`greet (${path.join(globalDir, 'greet.md')})`);
+    expect(report).toContain('Description: Say hi');
+    expect(report).toContain('Prompt arguments:\n  (none)');
+    expect(report).toContain('Template outline:\n  text (6 chars)');
+    expect(report).toContain('Diagnostics:\n  (none)');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from 'vitest';
+
+describe('Library entry point', () => {
+  it('has no side effects on import', async () => {
+    const log = vi.spyOn(console, 'log');
+    const error = vi.spyOn(console, 'error');
+    const exit = vi.spyOn(process, 'exit');
+    const listeners = process.listenerCount('SIGINT');
+
+    vi.resetModules();
+    const lib = await import('../src/lib.ts');
+
+    expect(typeof lib.createCommandServer).toBe('function');
+    expect(log).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    expect(exit).not.toHaveBeenCalled();
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+    vi.restoreAllMocks();
+  });
+
+  it('parses and renders templates', async () => {
+    const { parseTemplate, renderTemplate } = await import('../src/lib.ts');
+    const parsed = parseTemplate('---\nwho: "who to greet"\n---\nHi #{who}');
+
+    expect(parsed.inputSchema.required).toEqual(['who']);
+    expect(renderTemplate(parsed, { who: 'Ann' })).toBe('Hi Ann');
+  });
+});
@@ -0,0 +1,144 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { formatLintReport, lintCommands } from '../src/lint.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('lintCommands', () => {
+  let base: string;
+  let globalDir: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    base = path.join(__dirname, `../.test-lint-${Date.now()}-${Math.random()}`);
+    globalDir = path.join(base, 'global');
+    projectDir = path.join(base, 'project');
+    await fs.mkdir(path.join(globalDir, 'partials'), { recursive: true });
+    await fs.mkdir(projectDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('reports nothing for clean templates', async () => {
+    await fs.writeFile(
+      path.join(globalDir, 'greet.md'),
+      '---\nname: "name"\n---\nHello #{name}'
+    );
+    const report = await lintCommands([globalDir]);
+    expect(report).toEqual({
+      files: [
+        {
+          filePath: path.join(globalDir, 'greet.md'),
+          toolName: 'greet',
+          diagnostics: [],
+        },
+      ],
+      errorCount: 0,
+      warningCount: 0,
+    });
+  });
+
+  it('collects template diagnostics and counts them', async () => {
+    await fs.writeFile(
+      path.join(globalDir, 'broken.md'),
+      '---\nflag?: "flag"\n---\n#{?flag}open #{other}'
+    );
+    const report = await lintCommands([globalDir]);
+    expect(report.files[0]?.diagnostics.map(d => d.code)).toEqual([
+      'undeclared-placeholder',
+      'unclosed-block',
+      'unused-variable',
+    ]);
+    expect(report.errorCount).toBe(1);
+    expect(report.warningCount).toBe(2);
+  });
+
+  it('resolves includes and skips partials as tools', async () => {
+    await fs.writeFile(
+      path.join(globalDir, 'partials/footer.md'),
+      '---\nauthor: "author"\n---\nBy #{author}'
+    );
+    await fs.writeFile(
+      path.join(globalDir, 'post.md'),
+      '#{>partials/footer}\n#{>partials/missing}'
+    );
+    const report = await lintCommands([globalDir]);
+    expect(report.files.map(file => file.toolName)).toEqual(['post']);
+    expect(report.files[0]?.diagnostics).toEqual([
+      expect.objectContaining({ code: 'unresolved-include', line: 2 }),
+    ]);
+  });
+
+  it('reports filter errors at their position', async () => {
+    await fs.writeFile(
+      path.join(globalDir, 'shout.md'),
+      '---\ntext: "text"\n---\n#{text | shout}'
+    );
+    const report = await lintCommands([globalDir]);
+    expect(report.files[0]?.diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'invalid-filter',
+        message: expect.stringContaining('Unknown filter "shout"'),
+        line: 4,
+        column: 1,
+      }),
+    ]);
+  });
+
+  it('flags invalid and duplicate tool names', async () => {
+    await fs.writeFile(path.join(globalDir, 'review.md'), 'Global');
+    await fs.writeFile(path.join(projectDir, 'review.md'), 'Project');
+    await fs.writeFile(path.join(projectDir, 'code review.md'), 'Spaces');
+    const report = await lintCommands([globalDir, projectDir]);
+
+    const diagnosticsOf = (filePath: string) =>
+      report.files
+        .find(file => file.filePath === filePath)
+        ?.diagnostics.map(d => [d.severity, d.code, d.message]);
+
+    expect(diagnosticsOf(path.join(projectDir, 'review.md'))).toEqual([
+      [
+        'warning',
+        'duplicate-name',
+        `Tool name "review" is also defined by ${path.join(globalDir, 'review.md')}`,
+      ],
+    ]);
+    expect(diagnosticsOf(path.join(projectDir, 'code review.md'))).toEqual([
+      [
+        'error',
+        'invalid-name',
+        'Tool name "code review" must be 1-64 letters, digits, "_", "-" or "."',
+      ],
+    ]);
+    expect(diagnosticsOf(path.join(globalDir, 'review.md'))).toEqual([]);
+  });
+
+  it('lints a directory given twice once', async () => {
+    await fs.writeFile(path.join(globalDir, 'review.md'), 'Review');
+    const report = await lintCommands([globalDir, globalDir]);
+
+    expect(report.files.map(file => file.filePath)).toEqual([
+      path.join(globalDir, 'review.md'),
+    ]);
+    expect(report.files[0]?.diagnostics).toEqual([]);
+  });
+
+  it('skips missing directories', async () => {
+    const report = await lintCommands([path.join(base, 'missing')]);
+    expect(report.files).toEqual([]);
+  });
+
+  it('formats a human-readable report', async () => {
+    await fs.writeFile(path.join(globalDir, 'hello.md'), 'Hi #{name}');
+    const report = await lintCommands([globalDir]);
+    expect(formatLintReport(report)).toBe(
+      `${path.join(globalDir, 'hello.md')}:1:4: warning: #{name} is not declared in frontmatter and is left as text [undeclared-placeholder]\n` +
+        '1 file(s) checked: 0 error(s), 1 warning(s)'
+    );
+  });
+});
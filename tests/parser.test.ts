@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { parseTemplate, renderTemplate } from '../src/parser.ts';
+import { validateArguments } from '../src/validator.ts';
+import type { TemplateArguments } from '../src/types.ts';
 
 describe('Parser - YAML Frontmatter Extraction', () => {
   it('extracts simple placeholder with frontmatter description', () => {
@@ -793,8 +795,11 @@ author?: "author name"
 ---
 #{?author}
 Content without closing tag`;
-    // Should not throw, but may log warning
+    // Should not throw, but reports a diagnostic
     expect(() => parseTemplate(template)).not.toThrow();
+    expect(parseTemplate(template).diagnostics).toContainEqual(
+      expect.objectContaining({ code: 'unclosed-block', line: 4, column: 1 })
+    );
   });
 
   it('handles block without defined variable in frontmatter', () => {
@@ -876,3 +881,1375 @@ Main documentation here.`;
     expect(minimal).toContain('Main documentation here');
   });
 });
+
+describe('Parser - Typed Variables', () => {
+  it('keeps string type for plain description values', () => {
+    const result = parseTemplate(`---
+name: "person's name"
+---
+Hello #{name}`);
+    expect(result.vars[0]?.schema).toEqual({ type: 'string' });
+  });
+
+  it('parses object declarations with type and description', () => {
+    const result = parseTemplate(`---
+count:
+  type: integer
+  description: "number of items"
+  minimum: 1
+  maximum: 10
+---
+List #{count} items`);
+    expect(result.vars[0]?.description).toBe('number of items');
+    expect(result.inputSchema.properties.count).toEqual({
+      type: 'integer',
+      description: 'number of items',
+      minimum: 1,
+      maximum: 10,
+    });
+  });
+
+  it('emits enum values in the schema', () => {
+    const result = parseTemplate(`---
+language:
+  type: string
+  description: "target language"
+  enum: [python, typescript, go]
+---
+Write it in #{language}`);
+    expect(result.inputSchema.properties.language).toEqual({
+      type: 'string',
+      description: 'target language',
+      enum: ['python', 'typescript', 'go'],
+    });
+  });
+
+  it('infers type from enum values when type is omitted', () => {
+    const result = parseTemplate(`---
+level:
+  enum: [1, 2, 3]
+---
+Level #{level}`);
+    expect(result.inputSchema.properties.level?.type).toBe('number');
+  });
+
+  it('parses array variables with item schema', () => {
+    const result = parseTemplate(`---
+tags:
+  type: array
+  description: "labels to apply"
+  items:
+    type: string
+    enum: [bug, feature]
+---
+Tags: #{tags}`);
+    expect(result.inputSchema.properties.tags).toEqual({
+      type: 'array',
+      description: 'labels to apply',
+      items: { type: 'string', enum: ['bug', 'feature'] },
+    });
+  });
+
+  it('accepts a type name as items shorthand', () => {
+    const result = parseTemplate(`---
+ports:
+  type: array
+  items: number
+---
+#{ports}`);
+    expect(result.inputSchema.properties.ports?.items).toEqual({
+      type: 'number',
+    });
+  });
+
+  it('falls back to string for unknown types', () => {
+    const result = parseTemplate(`---
+thing:
+  type: widget
+  description: "a thing"
+---
+#{thing}`);
+    expect(result.inputSchema.properties.thing?.type).toBe('string');
+  });
+
+  it('uses fallback description when object omits it', () => {
+    const result = parseTemplate(`---
+verbose?:
+  type: boolean
+---
+#{verbose?}`);
+    expect(result.inputSchema.properties.verbose?.description).toBe(
+      'Variable: verbose'
+    );
+    expect(result.inputSchema.required).not.toContain('verbose');
+  });
+
+  it('formats typed values when rendering', () => {
+    const parsed = parseTemplate(`---
+count:
+  type: number
+strict:
+  type: boolean
+tags:
+  type: array
+---
+#{count} #{strict} #{tags}`);
+    const result = renderTemplate(parsed, {
+      count: 3,
+      strict: false,
+      tags: ['a', 'b'],
+    });
+    expect(result).toBe('3 false a, b');
+  });
+
+  it('uses typed values to control conditional blocks', () => {
+    const parsed = parseTemplate(`---
+strict?:
+  type: boolean
+tags?:
+  type: array
+---
+#{?strict}Strict mode.#{/strict}#{?tags}Tagged.#{/tags}`);
+    expect(renderTemplate(parsed, { strict: true, tags: ['x'] })).toBe(
+      'Strict mode.Tagged.'
+    );
+    expect(renderTemplate(parsed, { strict: false, tags: [] })).toBe('');
+  });
+});
+
+describe('Parser - Default Values', () => {
+  const template = `---
+name: "person's name"
+greeting:
+  description: "opening word"
+  default: "Hello"
+count:
+  type: integer
+  default: 3
+---
+#{greeting} #{name}, here are #{count} tips.`;
+
+  it('includes defaults in the schema', () => {
+    const result = parseTemplate(template);
+    expect(result.inputSchema.properties.greeting).toEqual({
+      type: 'string',
+      description: 'opening word',
+      default: 'Hello',
+    });
+    expect(result.inputSchema.properties.count?.default).toBe(3);
+  });
+
+  it('treats variables with defaults as optional', () => {
+    const result = parseTemplate(template);
+    expect(result.inputSchema.required).toEqual(['name']);
+    expect(result.vars.find(v => v.name === 'greeting')?.optional).toBe(true);
+  });
+
+  it('applies defaults for missing values', () => {
+    const parsed = parseTemplate(template);
+    expect(renderTemplate(parsed, { name: 'Emma' })).toBe(
+      'Hello Emma, here are 3 tips.'
+    );
+  });
+
+  it('prefers provided values over defaults', () => {
+    const parsed = parseTemplate(template);
+    expect(
+      renderTemplate(parsed, { name: 'Emma', greeting: 'Hi', count: 1 })
+    ).toBe('Hi Emma, here are 1 tips.');
+  });
+
+  it('keeps explicit empty string as intentionally null', () => {
+    const parsed = parseTemplate(template);
+    expect(renderTemplate(parsed, { name: 'Emma', greeting: '' })).toBe(
+      ' Emma, here are 3 tips.'
+    );
+  });
+
+  it('uses defaults to control conditional blocks', () => {
+    const parsed = parseTemplate(`---
+verbose?:
+  type: boolean
+  default: true
+---
+#{?verbose}Explain each step.#{/verbose}`);
+    expect(renderTemplate(parsed, {})).toBe('Explain each step.');
+    expect(renderTemplate(parsed, { verbose: false })).toBe('');
+  });
+
+  it('supports array defaults', () => {
+    const parsed = parseTemplate(`---
+tags:
+  type: array
+  default: [bug, urgent]
+---
+Tags: #{tags}`);
+    expect(parsed.inputSchema.properties.tags?.default).toEqual([
+      'bug',
+      'urgent',
+    ]);
+    expect(renderTemplate(parsed, {})).toBe('Tags: bug, urgent');
+  });
+});
+
+describe('Parser - Else and Negated Blocks', () => {
+  it('parses else branch into the block alternate', () => {
+    const parsed = parseTemplate(`---
+author?: "author name"
+---
+#{?author}By #{author}#{:else}Anonymous#{/author}`);
+    const block = parsed.ast[0] as any;
+    expect(block.type).toBe('block');
+    expect(block.alternate).toEqual(['Anonymous']);
+  });
+
+  it('renders content or else branch based on value', () => {
+    const parsed = parseTemplate(`---
+author?: "author name"
+---
+#{?author}By #{author}#{:else}Anonymous#{/author}`);
+    expect(renderTemplate(parsed, { author: 'Emma' })).toBe('By Emma');
+    expect(renderTemplate(parsed, { author: '' })).toBe('Anonymous');
+    expect(renderTemplate(parsed, {})).toBe('Anonymous');
+  });
+
+  it('parses negated block as its own node type', () => {
+    const parsed = parseTemplate(`---
+tests?: "existing tests"
+---
+#{!tests}Write tests first.#{/tests}`);
+    expect(parsed.ast[0]).toEqual({
+      type: 'negated',
+      variable: 'tests',
+      content: ['Write tests first.'],
+    });
+    expect(parsed.vars[0]?.optional).toBe(true);
+  });
+
+  it('renders negated block only when variable is empty', () => {
+    const parsed = parseTemplate(`---
+tests?: "existing tests"
+---
+#{!tests}Write tests first.#{/tests}`);
+    expect(renderTemplate(parsed, {})).toBe('Write tests first.');
+    expect(renderTemplate(parsed, { tests: 'suite.ts' })).toBe('');
+  });
+
+  it('supports else in negated blocks', () => {
+    const parsed = parseTemplate(`---
+tests?: "existing tests"
+---
+#{!tests}No tests.#{:else}Tests: #{tests}#{/}`);
+    expect(renderTemplate(parsed, {})).toBe('No tests.');
+    expect(renderTemplate(parsed, { tests: 'a.ts' })).toBe('Tests: a.ts');
+  });
+
+  it('handles nested blocks with else branches', () => {
+    const parsed = parseTemplate(`---
+lang?: "language"
+strict?: "strict mode"
+---
+#{?lang}#{lang}#{?strict} (strict)#{:else} (loose)#{/strict}#{:else}#{!strict}any#{:else}strict any#{/strict}#{/lang}`);
+    expect(renderTemplate(parsed, { lang: 'ts', strict: 'yes' })).toBe(
+      'ts (strict)'
+    );
+    expect(renderTemplate(parsed, { lang: 'ts' })).toBe('ts (loose)');
+    expect(renderTemplate(parsed, { strict: 'yes' })).toBe('strict any');
+    expect(renderTemplate(parsed, {})).toBe('any');
+  });
+
+  it('keeps else outside a block as literal text', () => {
+    const parsed = parseTemplate(`---
+name: "name"
+---
+#{name} #{:else}`);
+    expect(renderTemplate(parsed, { name: 'x' })).toBe('x #{:else}');
+  });
+
+  it('keeps a second else in the same block as literal text', () => {
+    const parsed = parseTemplate(`---
+flag?: "flag"
+---
+#{?flag}a#{:else}b#{:else}c#{/flag}`);
+    expect(renderTemplate(parsed, {})).toBe('b#{:else}c');
+  });
+
+  it('restores unclosed negated blocks as literal text', () => {
+    const parsed = parseTemplate(`---
+flag?: "flag"
+---
+#{!flag}a#{:else}b`);
+    expect(renderTemplate(parsed, {})).toBe('#{!flag}a#{:else}b');
+  });
+});
+
+describe('Parser - Block Conditions', () => {
+  const template = `---
+language:
+  enum: [python, typescript, go]
+---
+#{?language == "python"}Use pytest.#{:else}Use the standard runner.#{/language}`;
+
+  it('parses the condition into the block node', () => {
+    const parsed = parseTemplate(template);
+    const block = parsed.ast[0] as any;
+    expect(block.variable).toBe('language');
+    expect(block.condition).toEqual({ operator: '==', value: 'python' });
+  });
+
+  it('renders content when equality holds', () => {
+    const parsed = parseTemplate(template);
+    expect(renderTemplate(parsed, { language: 'python' })).toBe('Use pytest.');
+    expect(renderTemplate(parsed, { language: 'go' })).toBe(
+      'Use the standard runner.'
+    );
+  });
+
+  it('keeps the declared variable type in the schema', () => {
+    const parsed = parseTemplate(template);
+    expect(parsed.inputSchema.properties.language?.enum).toEqual([
+      'python',
+      'typescript',
+      'go',
+    ]);
+  });
+
+  it('supports inequality with bare words', () => {
+    const parsed = parseTemplate(`---
+env?: "environment"
+---
+#{?env != prod}Safe to experiment.#{/env}`);
+    expect(renderTemplate(parsed, { env: 'dev' })).toBe('Safe to experiment.');
+    expect(renderTemplate(parsed, { env: 'prod' })).toBe('');
+    expect(renderTemplate(parsed, {})).toBe('Safe to experiment.');
+  });
+
+  it('supports membership in a list', () => {
+    const parsed = parseTemplate(`---
+severity: "issue severity"
+---
+#{?severity in [high, critical]}Page the on-call.#{/severity}`);
+    expect(renderTemplate(parsed, { severity: 'critical' })).toBe(
+      'Page the on-call.'
+    );
+    expect(renderTemplate(parsed, { severity: 'low' })).toBe('');
+  });
+
+  it('supports not in', () => {
+    const parsed = parseTemplate(`---
+severity: "issue severity"
+---
+#{?severity not in [high, critical]}Queue it.#{/severity}`);
+    expect(renderTemplate(parsed, { severity: 'low' })).toBe('Queue it.');
+    expect(renderTemplate(parsed, { severity: 'high' })).toBe('');
+  });
+
+  it('supports numeric comparisons', () => {
+    const parsed = parseTemplate(`---
+count:
+  type: number
+---
+#{?count >= 10}Summarize.#{:else}List each.#{/count}`);
+    expect(renderTemplate(parsed, { count: 12 })).toBe('Summarize.');
+    expect(renderTemplate(parsed, { count: '10' })).toBe('Summarize.');
+    expect(renderTemplate(parsed, { count: 3 })).toBe('List each.');
+    expect(renderTemplate(parsed, {})).toBe('List each.');
+  });
+
+  it('compares typed values by string form', () => {
+    const parsed = parseTemplate(`---
+strict:
+  type: boolean
+---
+#{?strict == true}strict#{/strict}`);
+    expect(renderTemplate(parsed, { strict: true })).toBe('strict');
+    expect(renderTemplate(parsed, { strict: false })).toBe('');
+  });
+
+  it('negates conditions in negated blocks', () => {
+    const parsed = parseTemplate(`---
+language: "language"
+---
+#{!language == go}Not Go.#{/language}`);
+    expect(renderTemplate(parsed, { language: 'python' })).toBe('Not Go.');
+    expect(renderTemplate(parsed, { language: 'go' })).toBe('');
+  });
+
+  it('nests conditional blocks', () => {
+    const parsed = parseTemplate(`---
+language: "language"
+framework?: "framework"
+---
+#{?language == python}#{?framework == django}Django#{:else}Python#{/framework}#{/language}`);
+    expect(
+      renderTemplate(parsed, { language: 'python', framework: 'django' })
+    ).toBe('Django');
+    expect(renderTemplate(parsed, { language: 'python' })).toBe('Python');
+    expect(renderTemplate(parsed, { language: 'go' })).toBe('');
+  });
+
+  it('treats malformed condition values as literal text', () => {
+    const parsed = parseTemplate(`---
+language: "language"
+---
+#{?language == [a, b]}x#{/language}`);
+    expect(renderTemplate(parsed, { language: 'a' })).toBe(
+      '#{?language == [a, b]}x#{/language}'
+    );
+  });
+
+  it('restores unclosed conditional blocks verbatim', () => {
+    const parsed = parseTemplate(`---
+language: "language"
+---
+#{?language == "go"}unclosed`);
+    expect(renderTemplate(parsed, { language: 'go' })).toBe(
+      '#{?language == "go"}unclosed'
+    );
+  });
+});
+
+describe('Parser - Loop Blocks', () => {
+  const template = `---
+checks:
+  type: array
+  description: "review checklist items"
+---
+#{*checks}- [ ] #{@number}. #{@item}
+#{/checks}`;
+
+  it('parses loop into its own node type', () => {
+    const parsed = parseTemplate(template);
+    const loop = parsed.ast[0] as any;
+    expect(loop.type).toBe('loop');
+    expect(loop.variable).toBe('checks');
+    expect(loop.content).toContainEqual({
+      type: 'loop-variable',
+      name: 'item',
+    });
+  });
+
+  it('reflects loop variable as a required array in the schema', () => {
+    const parsed = parseTemplate(template);
+    expect(parsed.inputSchema.properties.checks).toEqual({
+      type: 'array',
+      description: 'review checklist items',
+      items: { type: 'string' },
+    });
+    expect(parsed.inputSchema.required).toEqual(['checks']);
+  });
+
+  it('renders content once per array item', () => {
+    const parsed = parseTemplate(template);
+    expect(renderTemplate(parsed, { checks: ['tests', 'docs'] })).toBe(
+      '- [ ] 1. tests\n- [ ] 2. docs\n'
+    );
+  });
+
+  it('splits newline and comma separated strings', () => {
+    const parsed = parseTemplate(template);
+    expect(renderTemplate(parsed, { checks: 'tests\ndocs' })).toBe(
+      '- [ ] 1. tests\n- [ ] 2. docs\n'
+    );
+    expect(renderTemplate(parsed, { checks: 'tests, docs' })).toBe(
+      '- [ ] 1. tests\n- [ ] 2. docs\n'
+    );
+  });
+
+  it('exposes zero-based index', () => {
+    const parsed = parseTemplate(`---
+items:
+  type: array
+---
+#{*items}#{@index}:#{@item} #{/items}`);
+    expect(renderTemplate(parsed, { items: ['a', 'b'] })).toBe('0:a 1:b ');
+  });
+
+  it('converts plain declarations to string arrays', () => {
+    const parsed = parseTemplate(`---
+files?: "files to review"
+---
+#{*files}#{@item};#{/files}`);
+    expect(parsed.inputSchema.properties.files).toEqual({
+      type: 'array',
+      description: 'files to review',
+      items: { type: 'string' },
+    });
+    expect(parsed.inputSchema.required).toEqual([]);
+  });
+
+  it('keeps enum values as item constraints', () => {
+    const parsed = parseTemplate(`---
+langs:
+  enum: [python, go]
+---
+#{*langs}#{@item}#{/langs}`);
+    expect(parsed.inputSchema.properties.langs?.items).toEqual({
+      type: 'string',
+      enum: ['python', 'go'],
+    });
+  });
+
+  it('keeps defaults and constraints of looped scalar declarations', () => {
+    const parsed = parseTemplate(`---
+items:
+  type: string
+  default: "a,b"
+  pattern: "^[a-z]+$"
+sizes:
+  type: integer
+  minimum: 1
+  maximum: 5
+  default: 2
+---
+#{*items}#{@item} #{/items}#{*sizes}#{@item}#{/sizes}`);
+    expect(parsed.inputSchema.properties.items).toEqual({
+      type: 'array',
+      description: 'Variable: items',
+      items: { type: 'string', pattern: '^[a-z]+$' },
+      default: ['a', 'b'],
+    });
+    expect(parsed.inputSchema.properties.sizes).toEqual({
+      type: 'array',
+      description: 'Variable: sizes',
+      items: { type: 'integer', minimum: 1, maximum: 5 },
+      default: [2],
+    });
+    expect(parsed.inputSchema.required).toEqual([]);
+    expect(renderTemplate(parsed, {})).toBe('a b 2');
+    expect(
+      validateArguments(parsed.inputSchema, { items: 'a, B', sizes: '9' })
+        .issues
+    ).toEqual([
+      { argument: 'items', message: 'Item 1: Must match pattern ^[a-z]+$' },
+      { argument: 'sizes', message: 'Item 0: Must be <= 5' },
+    ]);
+  });
+
+  it('advertises an array when a placeholder comes before the loop', () => {
+    const parsed = parseTemplate(`---
+items: "things to list"
+---
+All: #{items}
+#{*items}- #{@item}
+#{/items}`);
+    expect(parsed.inputSchema.properties.items).toEqual({
+      type: 'array',
+      description: 'things to list',
+      items: { type: 'string' },
+    });
+    const { values, issues } = validateArguments(parsed.inputSchema, {
+      items: ['a', 'b'],
+    });
+    expect(issues).toEqual([]);
+    expect(renderTemplate(parsed, values)).toBe('All: a, b\n- a\n- b\n');
+  });
+
+  it('creates an optional array variable for undeclared loops', () => {
+    const parsed = parseTemplate(`#{*steps}#{@item}#{/steps}`);
+    expect(parsed.vars[0]?.optional).toBe(true);
+    expect(parsed.inputSchema.properties.steps?.type).toBe('array');
+  });
+
+  it('renders else branch for empty lists', () => {
+    const parsed = parseTemplate(`---
+items?:
+  type: array
+---
+#{*items}#{@item}#{:else}Nothing to do.#{/items}`);
+    expect(renderTemplate(parsed, { items: [] })).toBe('Nothing to do.');
+    expect(renderTemplate(parsed, {})).toBe('Nothing to do.');
+  });
+
+  it('supports placeholders and conditions inside loops', () => {
+    const parsed = parseTemplate(`---
+owner: "owner"
+tasks:
+  type: array
+---
+#{*tasks}#{?owner}#{owner}: #{/owner}#{@item}
+#{/tasks}`);
+    expect(
+      renderTemplate(parsed, { owner: 'Emma', tasks: ['write', 'ship'] })
+    ).toBe('Emma: write\nEmma: ship\n');
+  });
+
+  it('resolves loop variables against the innermost loop', () => {
+    const parsed = parseTemplate(`---
+rows:
+  type: array
+cols:
+  type: array
+---
+#{*rows}#{@item}[#{*cols}#{@item}#{/cols}]#{/rows}`);
+    expect(renderTemplate(parsed, { rows: ['a', 'b'], cols: [1, 2] })).toBe(
+      'a[12]b[12]'
+    );
+  });
+
+  it('keeps loop variables outside loops as literal text', () => {
+    const parsed = parseTemplate('#{@item} #{@index}');
+    expect(renderTemplate(parsed, {})).toBe('#{@item} #{@index}');
+  });
+});
+
+describe('Parser - Includes', () => {
+  const partials: Record<string, string> = {
+    'partials/style': `---
+language: "programming language"
+---
+Follow the #{language} style guide.`,
+    'partials/outer': 'Outer [#{>partials/inner}]',
+    'partials/inner': 'Inner',
+    'partials/loop-a': 'A #{>partials/loop-b}',
+    'partials/loop-b': 'B #{>partials/loop-a}',
+  };
+  const resolvePartial = (name: string) =>
+    partials[name] === undefined
+      ? undefined
+      : { id: `/commands/${name}.md`, content: partials[name] };
+
+  it('inlines partial content', () => {
+    const parsed = parseTemplate(
+      `---
+code: "code"
+---
+Review #{code}.
+#{>partials/style}`,
+      { resolvePartial }
+    );
+    expect(renderTemplate(parsed, { code: 'x', language: 'Go' })).toBe(
+      'Review x.\nFollow the Go style guide.'
+    );
+  });
+
+  it('adds partial variables to the schema', () => {
+    const parsed = parseTemplate('#{>partials/style}', { resolvePartial });
+    expect(parsed.vars.map(v => v.name)).toEqual(['language']);
+    expect(parsed.inputSchema.properties.language?.description).toBe(
+      'programming language'
+    );
+    expect(parsed.inputSchema.required).toEqual(['language']);
+  });
+
+  it('lets local declarations override partial declarations', () => {
+    const parsed = parseTemplate(
+      `---
+language?: "language of the snippet"
+---
+#{>partials/style}`,
+      { resolvePartial }
+    );
+    expect(parsed.inputSchema.properties.language?.description).toBe(
+      'language of the snippet'
+    );
+    expect(parsed.inputSchema.required).toEqual([]);
+  });
+
+  it('records resolved includes transitively', () => {
+    const parsed = parseTemplate('#{>partials/outer}', { resolvePartial });
+    expect(renderTemplate(parsed, {})).toBe('Outer [Inner]');
+    expect(parsed.includes).toEqual([
+      '/commands/partials/outer.md',
+      '/commands/partials/inner.md',
+    ]);
+  });
+
+  it('keeps unresolved includes as literal text', () => {
+    const parsed = parseTemplate('#{>partials/missing}', { resolvePartial });
+    expect(renderTemplate(parsed, {})).toBe('#{>partials/missing}');
+    expect(parsed.includes).toEqual([]);
+  });
+
+  it('keeps includes literal without a resolver', () => {
+    const parsed = parseTemplate('#{>partials/style}');
+    expect(renderTemplate(parsed, {})).toBe('#{>partials/style}');
+  });
+
+  it('stops circular includes', () => {
+    const parsed = parseTemplate('#{>partials/loop-a}', { resolvePartial });
+    expect(renderTemplate(parsed, {})).toBe('A B #{>partials/loop-a}');
+  });
+
+  it('detects a template including itself', () => {
+    const parsed = parseTemplate('Self #{>partials/inner}', {
+      id: '/commands/partials/inner.md',
+      resolvePartial,
+    });
+    expect(renderTemplate(parsed, {})).toBe('Self #{>partials/inner}');
+  });
+
+  it('allows includes inside blocks', () => {
+    const parsed = parseTemplate(
+      `---
+strict?: "strict mode"
+---
+#{?strict}#{>partials/inner}#{/strict}`,
+      { resolvePartial }
+    );
+    expect(renderTemplate(parsed, { strict: 'yes' })).toBe('Inner');
+    expect(renderTemplate(parsed, {})).toBe('');
+  });
+});
+
+describe('Parser - Template Inheritance', () => {
+  const templates: Record<string, string> = {
+    'bases/review': `---
+code: "code to review"
+---
+# Review
+
+#{code}
+
+#{#focus}Check correctness.#{/focus}
+
+#{#footer}Be concise.#{/footer}`,
+    'bases/strict-review': `---
+extends: bases/review
+---
+#{#footer}Be concise and cite line numbers.#{/footer}`,
+    'bases/cycle-a': `---
+extends: bases/cycle-b
+---
+#{#x}A#{/x}`,
+    'bases/cycle-b': `---
+extends: bases/cycle-a
+---
+#{#x}B#{/x}`,
+  };
+  const resolvePartial = (name: string) =>
+    templates[name] === undefined
+      ? undefined
+      : { id: `/commands/${name}.md`, content: templates[name] };
+
+  it('renders sections with their own content', () => {
+    const parsed = parseTemplate(templates['bases/review']!, {
+      resolvePartial,
+    });
+    expect(renderTemplate(parsed, { code: 'x()' })).toBe(
+      '# Review\n\nx()\n\nCheck correctness.\n\nBe concise.'
+    );
+  });
+
+  it('replaces parent sections with child overrides', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/review
+---
+#{#focus}Check #{area}.#{/focus}`,
+      { resolvePartial }
+    );
+    expect(renderTemplate(parsed, { code: 'x()', area: 'security' })).toBe(
+      '# Review\n\nx()\n\nCheck #{area}.\n\nBe concise.'
+    );
+  });
+
+  it('merges parent variable declarations into the schema', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/review
+area: "area to focus on"
+---
+#{#focus}Check #{area}.#{/focus}`,
+      { resolvePartial }
+    );
+    expect(parsed.vars.map(v => v.name)).toEqual(['code', 'area']);
+    expect(parsed.inputSchema.required).toEqual(['code', 'area']);
+    expect(renderTemplate(parsed, { code: 'x()', area: 'security' })).toBe(
+      '# Review\n\nx()\n\nCheck security.\n\nBe concise.'
+    );
+  });
+
+  it('lets child declarations override parent declarations', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/review
+code?: "optional snippet"
+---
+`,
+      { resolvePartial }
+    );
+    expect(parsed.inputSchema.properties.code?.description).toBe(
+      'optional snippet'
+    );
+    expect(parsed.inputSchema.required).toEqual([]);
+  });
+
+  it('drops variables only used in overridden sections', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/review
+---
+#{#footer}Done.#{/footer}`,
+      {
+        resolvePartial: name =>
+          name === 'bases/review'
+            ? {
+                id: '/commands/bases/review.md',
+                content: `---
+code: "code"
+style: "style guide"
+---
+#{code} #{#footer}Follow #{style}.#{/footer}`,
+              }
+            : undefined,
+      }
+    );
+    expect(parsed.vars.map(v => v.name)).toEqual(['code']);
+  });
+
+  it('does not treat extends as a variable', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/review
+---
+`,
+      { resolvePartial }
+    );
+    expect(parsed.inputSchema.properties).not.toHaveProperty('extends');
+  });
+
+  it('supports multi-level inheritance', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/strict-review
+---
+#{#focus}Check performance.#{/focus}`,
+      { resolvePartial }
+    );
+    expect(renderTemplate(parsed, { code: 'x()' })).toBe(
+      '# Review\n\nx()\n\nCheck performance.\n\nBe concise and cite line numbers.'
+    );
+    expect(parsed.parents).toEqual([
+      '/commands/bases/strict-review.md',
+      '/commands/bases/review.md',
+    ]);
+  });
+
+  it('stops at circular parents', () => {
+    const parsed = parseTemplate(templates['bases/cycle-a']!, {
+      id: '/commands/bases/cycle-a.md',
+      resolvePartial,
+    });
+    expect(parsed.parents).toEqual(['/commands/bases/cycle-b.md']);
+    expect(renderTemplate(parsed, {})).toBe('A');
+  });
+
+  it('falls back to the child body when the parent is missing', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/missing
+---
+#{#body}Standalone#{/body}`,
+      { resolvePartial }
+    );
+    expect(parsed.parents).toEqual([]);
+    expect(renderTemplate(parsed, {})).toBe('Standalone');
+  });
+});
+
+describe('Parser - Placeholder Filters', () => {
+  const render = (template: string, values: TemplateArguments) =>
+    renderTemplate(parseTemplate(template), values);
+
+  it('parses the filter chain onto the placeholder', () => {
+    const parsed = parseTemplate(`---
+code: "code"
+---
+#{code | trim | indent 4}`);
+    expect(parsed.vars[0]?.name).toBe('code');
+    expect(parsed.ast[0]).toMatchObject({
+      type: 'placeholder',
+      name: 'code',
+      filters: [
+        { name: 'trim', args: [] },
+        { name: 'indent', args: ['4'] },
+      ],
+    });
+  });
+
+  it('applies text filters', () => {
+    const template = `---
+name: "name"
+---
+#{name | upper} #{name | lower} #{name | capitalize}`;
+    expect(render(template, { name: 'hello World' })).toBe(
+      'HELLO WORLD hello world Hello World'
+    );
+  });
+
+  it('applies filters left to right', () => {
+    const template = `---
+text: "text"
+---
+#{text | trim | json}`;
+    expect(render(template, { text: '  say "hi"  ' })).toBe('"say \\"hi\\""');
+  });
+
+  it('indents every non-empty line', () => {
+    const template = `---
+code: "code"
+---
+#{code | indent 4}`;
+    expect(render(template, { code: 'a()\n\nb()' })).toBe('    a()\n\n    b()');
+  });
+
+  it('extracts path segments', () => {
+    const template = `---
+path: "path"
+---
+#{path | basename} in #{path | dirname}`;
+    expect(render(template, { path: 'src/lib/parser.ts' })).toBe(
+      'parser.ts in src/lib'
+    );
+  });
+
+  it('applies filters to list items and joins with quoted separators', () => {
+    const template = `---
+files:
+  type: array
+---
+#{files | basename | join " | "}
+#{files | bullets}
+#{files | json}`;
+    expect(render(template, { files: ['a/x.ts', 'b/y.ts'] })).toBe(
+      'x.ts | y.ts\n- a/x.ts\n- b/y.ts\n["a/x.ts","b/y.ts"]'
+    );
+  });
+
+  it('truncates long values', () => {
+    const template = `---
+summary: "summary"
+---
+#{summary | truncate 5}`;
+    expect(render(template, { summary: 'abcdefgh' })).toBe('abcde…');
+    expect(render(template, { summary: 'abc' })).toBe('abc');
+  });
+
+  it('applies filters to loop variables', () => {
+    const template = `---
+tags: "tags"
+---
+#{*tags}#{@item | upper};#{/tags}`;
+    expect(render(template, { tags: ['a', 'b'] })).toBe('A;B;');
+  });
+
+  it('keeps optional and missing behavior', () => {
+    const template = `---
+note?: "note"
+---
+[#{note | upper}]`;
+    expect(render(template, { note: '' })).toBe('[]');
+    expect(render(template, {})).toBe('[#{note}]');
+  });
+
+  it('reports unknown filters at the placeholder and keeps it as text', () => {
+    const parsed = parseTemplate(`---
+code: "code"
+---
+Code: #{code | shout}`);
+    expect(parsed.diagnostics).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'invalid-filter',
+        message: expect.stringMatching(
+          /^Unknown filter "shout".* in #\{code \| shout\}$/
+        ),
+        line: 4,
+        column: 7,
+      }),
+    ]);
+    expect(parsed.vars.map(v => v.name)).toEqual(['code']);
+    expect(renderTemplate(parsed, { code: 'x' })).toBe('Code: #{code | shout}');
+  });
+
+  it('does not take inherited object properties for filters', () => {
+    ['toString', 'constructor', 'hasOwnProperty'].forEach(name => {
+      const parsed = parseTemplate(`---\ncode: "code"\n---\n#{code | ${name}}`);
+      expect(parsed.diagnostics.map(d => [d.code, d.message])).toEqual([
+        [
+          'invalid-filter',
+          expect.stringMatching(new RegExp(`^Unknown filter "${name}"`)),
+        ],
+      ]);
+    });
+  });
+
+  it('reports invalid filter arguments', () => {
+    const messagesOf = (body: string) =>
+      parseTemplate(`---\ncode: "code"\n---\n${body}`).diagnostics.map(d => [
+        d.code,
+        d.message,
+      ]);
+    expect(messagesOf('#{code | indent four}')).toEqual([
+      [
+        'invalid-filter',
+        'Filter "indent" expects a whole number, got "four" in #{code | indent four}',
+      ],
+    ]);
+    expect(messagesOf('#{*code}#{@item | upper 2}#{/code}')).toEqual([
+      [
+        'invalid-filter',
+        'Filter "upper" takes at most 0 argument(s) in #{@item | upper 2}',
+      ],
+    ]);
+  });
+
+  it('leaves undeclared placeholders with filters as literal text', () => {
+    const parsed = parseTemplate('echo #{value | shout}');
+    expect(parsed.vars).toHaveLength(0);
+    expect(renderTemplate(parsed, {})).toBe('echo #{value | shout}');
+  });
+});
+
+describe('Parser - Diagnostics', () => {
+  it('returns no diagnostics for a clean template', () => {
+    const parsed = parseTemplate(`---
+name: "name"
+---
+Hello #{name}`);
+    expect(parsed.diagnostics).toEqual([]);
+  });
+
+  it('locates unclosed blocks at their opening tag', () => {
+    const parsed = parseTemplate(`---
+author?: "author"
+---
+Intro
+  #{?author}By #{author}`);
+    expect(parsed.diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'unclosed-block',
+        message: 'Unclosed block #{?author}',
+        line: 5,
+        column: 3,
+      },
+    ]);
+  });
+
+  it('reports mismatched and stray block ends', () => {
+    const parsed = parseTemplate(`---
+a?: "a"
+---
+#{?a}x#{/b}#{/a}
+#{/a}`);
+    expect(
+      parsed.diagnostics.map(d => [d.code, d.message, d.line, d.column])
+    ).toEqual([
+      ['mismatched-block', 'Block end #{/b} does not match #{?a}', 4, 7],
+      ['mismatched-block', 'Block end #{/a} has no matching block start', 5, 1],
+    ]);
+  });
+
+  it('reports misplaced else branches', () => {
+    const parsed = parseTemplate(`---
+a?: "a"
+---
+#{:else}#{?a}x#{:else}y#{:else}z#{/a}`);
+    expect(parsed.diagnostics.map(d => d.message)).toEqual([
+      '#{:else} outside of a conditional or loop block',
+      'Second #{:else} in block #{?a}',
+    ]);
+  });
+
+  it('reports invalid conditions and loop variables outside loops', () => {
+    const parsed = parseTemplate(`---
+level?: "level"
+---
+#{?level == [1}#{@item}`);
+    expect(parsed.diagnostics.map(d => [d.severity, d.code])).toEqual([
+      ['error', 'invalid-condition'],
+      ['warning', 'unknown-loop-variable'],
+      ['warning', 'unused-variable'],
+    ]);
+  });
+
+  it('warns about undeclared placeholders', () => {
+    const parsed = parseTemplate(`---
+name: "name"
+---
+#{name} and #{other}`);
+    expect(parsed.diagnostics).toEqual([
+      {
+        severity: 'warning',
+        code: 'undeclared-placeholder',
+        message: '#{other} is not declared in frontmatter and is left as text',
+        line: 4,
+        column: 13,
+      },
+    ]);
+  });
+
+  it('warns about unused frontmatter variables at their declaration', () => {
+    const parsed = parseTemplate(`---
+used: "used"
+unused?:
+  description: "never referenced"
+---
+#{used}`);
+    expect(parsed.diagnostics).toEqual([
+      {
+        severity: 'warning',
+        code: 'unused-variable',
+        message: 'Variable unused is declared but never used',
+        line: 3,
+        column: 1,
+      },
+    ]);
+  });
+
+  it('reports YAML errors with their position', () => {
+    const parsed = parseTemplate(`---
+name: "name"
+list: [1
+---
+#{name}`);
+    expect(parsed.diagnostics).toHaveLength(2);
+    expect(parsed.diagnostics[0]).toMatchObject({
+      severity: 'error',
+      code: 'yaml-error',
+      line: 3,
+    });
+    expect(parsed.diagnostics[0]?.message).toMatch(/^Invalid YAML frontmatter/);
+    expect(parsed.diagnostics[1]?.code).toBe('undeclared-placeholder');
+  });
+
+  it('attributes diagnostics in partials to the partial file', () => {
+    const partials: Record<string, string> = {
+      'partials/broken': 'Line one\n#{?flag}unclosed',
+    };
+    const parsed = parseTemplate('Start\n#{>partials/broken}\n#{>missing}', {
+      id: '/commands/main.md',
+      resolvePartial: name =>
+        partials[name]
+          ? { id: `/commands/${name}.md`, content: partials[name]! }
+          : undefined,
+    });
+    expect(parsed.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'unclosed-block',
+        source: '/commands/partials/broken.md',
+        line: 2,
+        column: 1,
+      }),
+      expect.objectContaining({
+        code: 'unresolved-include',
+        source: '/commands/main.md',
+        line: 3,
+        column: 1,
+      }),
+    ]);
+  });
+
+  it('reports unresolved parents at the extends key', () => {
+    const parsed = parseTemplate(
+      `---
+code: "code"
+extends: bases/missing
+---
+#{code}`,
+      { id: '/commands/child.md', resolvePartial: () => undefined }
+    );
+    expect(parsed.diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'unresolved-parent',
+        message: 'Could not resolve parent template bases/missing',
+        line: 3,
+        column: 1,
+        source: '/commands/child.md',
+      },
+    ]);
+  });
+});
+
+describe('Parser - Metadata', () => {
+  it('reads reserved keys as metadata instead of variables', () => {
+    const parsed = parseTemplate(`---
+name: code-review
+title: Code Review
+description: Reviews a diff
+tags: [review, git]
+diff: "the diff"
+---
+Review #{diff}`);
+    expect(parsed.metadata).toEqual({
+      name: 'code-review',
+      title: 'Code Review',
+      description: 'Reviews a diff',
+      tags: ['review', 'git'],
+    });
+    expect(parsed.vars.map(v => v.name)).toEqual(['diff']);
+    expect(parsed.inputSchema.required).toEqual(['diff']);
+    expect(parsed.diagnostics).toEqual([]);
+  });
+
+  it('accepts tags as a comma-separated string', () => {
+    const parsed = parseTemplate(`---
+tags: review, git
+---
+Review`);
+    expect(parsed.metadata).toEqual({ tags: ['review', 'git'] });
+  });
+
+  it('keeps reserved keys used in the template as variables', () => {
+    const parsed = parseTemplate(`---
+name: "person to greet"
+title: Greeting
+---
+Hello #{name}`);
+    expect(parsed.metadata).toEqual({ title: 'Greeting' });
+    expect(parsed.vars.map(v => v.name)).toEqual(['name']);
+  });
+
+  it('keeps object declarations of reserved keys as variables', () => {
+    const parsed = parseTemplate(`---
+title:
+  type: string
+  description: Issue title
+---
+Fix issue`);
+    expect(parsed.metadata).toEqual({});
+    expect(parsed.diagnostics.map(d => d.code)).toEqual(['unused-variable']);
+  });
+
+  it('returns empty metadata without frontmatter', () => {
+    expect(parseTemplate('Hello #{name}').metadata).toEqual({});
+  });
+});
+
+describe('Parser - Namespaced Frontmatter', () => {
+  it('reads variables from args and metadata from meta', () => {
+    const parsed = parseTemplate(`---
+meta:
+  name: release-notes
+  title: Release Notes
+  description: Drafts release notes
+  tags: [docs]
+args:
+  description: "what changed"
+  tags?:
+    type: array
+    description: "labels"
+---
+Changes: #{description}#{?tags} (#{tags | join " "})#{/tags}`);
+    expect(parsed.metadata).toEqual({
+      name: 'release-notes',
+      title: 'Release Notes',
+      description: 'Drafts release notes',
+      tags: ['docs'],
+    });
+    expect(parsed.vars.map(v => [v.name, v.optional])).toEqual([
+      ['description', false],
+      ['tags', true],
+    ]);
+    expect(parsed.inputSchema.properties.tags).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      description: 'labels',
+    });
+    expect(
+      renderTemplate(parsed, { description: 'Fixes', tags: ['a', 'b'] })
+    ).toBe('Changes: Fixes (a b)');
+  });
+
+  it('accepts args or meta on their own', () => {
+    const argsOnly = parseTemplate(`---
+args:
+  topic: "the topic"
+---
+About #{topic}`);
+    expect(argsOnly.vars.map(v => v.name)).toEqual(['topic']);
+    expect(argsOnly.metadata).toEqual({});
+
+    const metaOnly = parseTemplate(`---
+meta:
+  title: Standup
+---
+What did you do yesterday?`);
+    expect(metaOnly.vars).toEqual([]);
+    expect(metaOnly.metadata).toEqual({ title: 'Standup' });
+  });
+
+  it('reads lone sections whose keys are also declaration properties', () => {
+    const argsOnly = parseTemplate(`---
+args:
+  description: "what changed"
+---
+Changes: #{description}`);
+    expect(argsOnly.vars.map(v => v.name)).toEqual(['description']);
+    expect(argsOnly.inputSchema.properties.description).toEqual({
+      type: 'string',
+      description: 'what changed',
+    });
+    expect(argsOnly.diagnostics).toEqual([]);
+
+    const metaOnly = parseTemplate(`---
+meta:
+  description: Draft release notes
+---
+Draft the notes.`);
+    expect(metaOnly.vars).toEqual([]);
+    expect(metaOnly.metadata).toEqual({ description: 'Draft release notes' });
+    expect(metaOnly.diagnostics).toEqual([]);
+  });
+
+  it('keeps extends at the top level', () => {
+    const parsed = parseTemplate(
+      `---
+extends: bases/review
+args:
+  code: "the code"
+---
+#{#focus}Focus#{/focus}`,
+      {
+        id: '/commands/child.md',
+        resolvePartial: () => ({
+          id: '/commands/bases/review.md',
+          content: 'Review #{code}: #{#focus}#{/focus}',
+        }),
+      }
+    );
+    expect(parsed.parents).toEqual(['/commands/bases/review.md']);
+    expect(renderTemplate(parsed, { code: 'x' })).toBe('Review x: Focus');
+  });
+
+  it('reports unused args at their declaration', () => {
+    const parsed = parseTemplate(`---
+meta:
+  title: Unused
+args:
+  used: "used"
+  unused: "unused"
+---
+#{used}`);
+    expect(parsed.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'unused-variable',
+        message: 'Variable unused is declared but never used',
+        line: 6,
+        column: 3,
+      }),
+    ]);
+  });
+
+  it('keeps the flat form for variables named args or meta', () => {
+    const flatArgs = parseTemplate(`---
+args:
+  type: array
+  description: "command line arguments"
+---
+Run with #{args | join " "}`);
+    expect(flatArgs.vars.map(v => v.name)).toEqual(['args']);
+    expect(flatArgs.inputSchema.properties.args?.type).toBe('array');
+
+    const mixed = parseTemplate(`---
+meta: "extra context"
+topic: "the topic"
+---
+#{topic} #{meta}`);
+    expect(mixed.vars.map(v => v.name)).toEqual(['topic', 'meta']);
+    expect(mixed.metadata).toEqual({});
+  });
+});
@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPartialResolver } from '../src/partials.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('createPartialResolver', () => {
+  let globalDir: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    const base = path.join(
+      __dirname,
+      `../.test-partials-${Date.now()}-${Math.random()}`
+    );
+    globalDir = path.join(base, 'global');
+    projectDir = path.join(base, 'project');
+    await fs.mkdir(path.join(globalDir, 'partials'), { recursive: true });
+    await fs.mkdir(path.join(projectDir, 'partials'), { recursive: true });
+    await fs.writeFile(path.join(globalDir, 'partials/shared.md'), 'global');
+    await fs.writeFile(path.join(globalDir, 'partials/only.md'), 'only');
+    await fs.writeFile(path.join(projectDir, 'partials/shared.md'), 'project');
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(globalDir), { recursive: true, force: true });
+  });
+
+  it('resolves a partial by relative name', () => {
+    const resolve = createPartialResolver([globalDir]);
+    expect(resolve('partials/only')).toEqual({
+      id: path.join(globalDir, 'partials/only.md'),
+      content: 'only',
+    });
+  });
+
+  it('accepts names with the .md extension', () => {
+    const resolve = createPartialResolver([globalDir]);
+    expect(resolve('partials/only.md')?.content).toBe('only');
+  });
+
+  it('prefers later directories', () => {
+    const resolve = createPartialResolver([globalDir, projectDir]);
+    expect(resolve('partials/shared')?.content).toBe('project');
+    expect(resolve('partials/only')?.content).toBe('only');
+  });
+
+  it('returns undefined for missing partials', () => {
+    const resolve = createPartialResolver([globalDir, projectDir]);
+    expect(resolve('partials/missing')).toBeUndefined();
+  });
+
+  it('refuses names outside the commands directories', () => {
+    const resolve = createPartialResolver([path.join(projectDir, 'partials')]);
+    expect(resolve('../../global/partials/only')).toBeUndefined();
+  });
+});
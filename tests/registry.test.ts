@@ -0,0 +1,185 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPartialResolver } from '../src/partials.ts';
+import type { RegisteredTool } from '../src/types.ts';
+import {
+  commandNameFor,
+  listCommandFiles,
+  loadCommands,
+  pickCommand,
+  resolveCommand,
+  validateScanOptions,
+} from '../src/registry.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+describe('Registry', () => {
+  let base: string;
+  let globalDir: string;
+  let projectDir: string;
+
+  beforeEach(async () => {
+    base = path.join(
+      __dirname,
+      `../.test-registry-${Date.now()}-${Math.random()}`
+    );
+    globalDir = path.join(base, 'global');
+    projectDir = path.join(base, 'project');
+    await fs.mkdir(path.join(globalDir, 'partials'), { recursive: true });
+    await fs.mkdir(projectDir, { recursive: true });
+    await fs.writeFile(path.join(globalDir, 'review.md'), 'Global review');
+    await fs.writeFile(path.join(globalDir, 'explain.md'), 'Explain #{x}');
+    await fs.writeFile(path.join(globalDir, 'partials/sig.md'), 'Signed');
+    await fs.writeFile(path.join(projectDir, 'review.md'), 'Project review');
+  });
+
+  afterEach(async () => {
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('lists top-level templates in directory order', async () => {
+    const files = await listCommandFiles([
+      globalDir,
+      projectDir,
+      path.join(base, 'missing'),
+    ]);
+    expect(files.map(file => [file.toolName, file.filePath])).toEqual([
+      ['explain', path.join(globalDir, 'explain.md')],
+      ['review', path.join(globalDir, 'review.md')],
+      ['review', path.join(projectDir, 'review.md')],
+    ]);
+  });
+
+  it('lists nested templates down to the configured depth', async () => {
+    await fs.mkdir(path.join(projectDir, 'review/deep'), { recursive: true });
+    await fs.mkdir(path.join(projectDir, '_drafts'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'review/security.md'), 'S');
+    await fs.writeFile(path.join(projectDir, 'review/deep/style.md'), 'D');
+    await fs.writeFile(path.join(projectDir, '_drafts/idea.md'), 'I');
+
+    const names = async (options: Parameters<typeof listCommandFiles>[1]) =>
+      (await listCommandFiles([globalDir, projectDir], options)).map(
+        file => file.toolName
+      );
+
+    expect(await names({})).toEqual(['explain', 'review', 'review']);
+    expect(await names({ depth: 1 })).toEqual([
+      'explain',
+      'review',
+      'review',
+      'review_security',
+    ]);
+    expect(await names({ depth: 2, separator: '.' })).toEqual([
+      'explain',
+      'review',
+      'review',
+      'review.deep.style',
+      'review.security',
+    ]);
+  });
+
+  it('derives tool names from paths inside a commands directory', () => {
+    const options = { depth: 1, separator: '-' };
+    expect(commandNameFor(projectDir, path.join(projectDir, 'a.md'))).toBe('a');
+    expect(
+      commandNameFor(projectDir, path.join(projectDir, 'git/log.md'), options)
+    ).toBe('git-log');
+    expect(
+      commandNameFor(projectDir, path.join(projectDir, 'git/log.md'))
+    ).toBeUndefined();
+    expect(
+      commandNameFor(
+        projectDir,
+        path.join(projectDir, 'partials/x.md'),
+        options
+      )
+    ).toBeUndefined();
+    expect(
+      commandNameFor(projectDir, path.join(globalDir, 'review.md'), options)
+    ).toBeUndefined();
+  });
+
+  it('rejects invalid scan options', () => {
+    expect(validateScanOptions({ depth: 2, separator: '.' })).toEqual({
+      depth: 2,
+      separator: '.',
+    });
+    expect(() => validateScanOptions({ depth: -1 })).toThrow(
+      'Invalid depth -1: use a non-negative integer'
+    );
+    expect(() => validateScanOptions({ separator: '/' })).toThrow(
+      'Invalid separator "/": use one of "_", "-", "."'
+    );
+    expect(() =>
+      validateScanOptions({ precedence: 'newest' as 'first' })
+    ).toThrow('Invalid precedence "newest": use "first" or "last"');
+  });
+
+  it('loads commands with later directories winning', async () => {
+    const dirs = [globalDir, projectDir];
+    const tools = await loadCommands(dirs, createPartialResolver(dirs));
+    expect(Array.from(tools.keys()).sort()).toEqual(['explain', 'review']);
+    expect(tools.get('review')?.filePath).toBe(
+      path.join(projectDir, 'review.md')
+    );
+    expect(tools.get('review')?.description).toBe('Project review');
+  });
+
+  it('picks the winner by directory precedence, then path', async () => {
+    const dirs = [globalDir, projectDir];
+    const tools = [
+      { name: 'review', filePath: path.join(projectDir, 'review.md') },
+      { name: 'review', filePath: path.join(globalDir, 'review.md') },
+      { name: 'review', filePath: path.join(globalDir, 'z/review.md') },
+    ] as RegisteredTool[];
+
+    expect(pickCommand(tools, dirs)?.filePath).toBe(tools[0]?.filePath);
+    expect(pickCommand(tools.slice(1), dirs)?.filePath).toBe(
+      tools[2]?.filePath
+    );
+    expect(pickCommand(tools, dirs, { precedence: 'first' })?.filePath).toBe(
+      tools[2]?.filePath
+    );
+    expect(pickCommand([], dirs)).toBeUndefined();
+  });
+
+  it('resolves a command by name', async () => {
+    const tool = await resolveCommand('explain', [globalDir, projectDir]);
+    expect(tool?.filePath).toBe(path.join(globalDir, 'explain.md'));
+    expect(await resolveCommand('missing', [globalDir])).toBeUndefined();
+  });
+
+  it('uses frontmatter metadata for name, title and description', async () => {
+    await fs.writeFile(
+      path.join(projectDir, 'cr.md'),
+      `---
+name: code-review
+title: Code Review
+tags: [review]
+---
+Review the change`
+    );
+    const dirs = [globalDir, projectDir];
+    const tools = await loadCommands(dirs, createPartialResolver(dirs));
+    expect(tools.get('cr')).toBeUndefined();
+    expect(tools.get('code-review')).toMatchObject({
+      name: 'code-review',
+      title: 'Code Review',
+      description: 'Review the change',
+      tags: ['review'],
+      filePath: path.join(projectDir, 'cr.md'),
+    });
+  });
+
+  it('resolves a template file with partials next to it', async () => {
+    const filePath = path.join(base, 'draft.md');
+    await fs.writeFile(filePath, '#{>global/partials/sig}');
+    const tool = await resolveCommand(filePath, []);
+    expect(tool?.name).toBe('draft');
+    expect(tool?.parsed.includes).toEqual([
+      path.join(globalDir, 'partials/sig.md'),
+    ]);
+  });
+});
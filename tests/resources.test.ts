@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { commandUri, metadataUri, parseCommandUri } from '../src/resources.ts';
+
+describe('command resource URIs', () => {
+  it('encodes names into one path segment', () => {
+    expect(commandUri('review')).toBe('command://review');
+    expect(commandUri('git/commit')).toBe('command://git%2Fcommit');
+    expect(metadataUri('git/commit')).toBe('command://git%2Fcommit/metadata');
+  });
+
+  it('parses the name and kind back', () => {
+    expect(parseCommandUri('command://git%2Fcommit')).toEqual({
+      name: 'git/commit',
+      kind: 'source',
+    });
+    expect(parseCommandUri('command://review/metadata')).toEqual({
+      name: 'review',
+      kind: 'metadata',
+    });
+  });
+
+  it('rejects other schemes and malformed names', () => {
+    expect(parseCommandUri('file:///review.md')).toBeUndefined();
+    expect(parseCommandUri('command://')).toBeUndefined();
+    expect(parseCommandUri('command://git/commit')).toBeUndefined();
+    expect(parseCommandUri('command://%E0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseTemplate } from '../src/parser.ts';
+import {
+  buildTemplate,
+  promptTemplateSpec,
+  writeTemplate,
+} from '../src/scaffold.ts';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const scripted = (answers: string[]) => {
+  const questions: string[] = [];
+  const ask = async (question: string) => {
+    questions.push(question);
+    return answers.shift() ?? '';
+  };
+  return { ask, questions };
+};
+
+describe('Scaffold', () => {
+  it('collects a description and variables', async () => {
+    const { ask } = scripted([
+      'Review code',
+      'code',
+      'the code',
+      '',
+      '',
+      'limit',
+      'max findings',
+      'yes',
+      'integer',
+      '',
+    ]);
+    expect(await promptTemplateSpec(ask)).toEqual({
+      description: 'Review code',
+      variables: [
+        {
+          name: 'code',
+          description: 'the code',
+          optional: false,
+          type: 'string',
+        },
+        {
+          name: 'limit',
+          description: 'max findings',
+          optional: true,
+          type: 'integer',
+        },
+      ],
+    });
+  });
+
+  it('asks again for invalid names, duplicates and types', async () => {
+    const { ask, questions } = scripted([
+      '',
+      'bad name',
+      'extends',
+      'code',
+      '',
+      'n',
+      'text',
+      'string',
+      'code',
+      '',
+    ]);
+    const spec = await promptTemplateSpec(ask);
+    expect(spec.variables.map(variable => variable.name)).toEqual(['code']);
+    expect(questions).toContain(
+      'Invalid name "bad name", use letters, digits and "_".\nVariable name (leave empty to finish): '
+    );
+    expect(questions).toContain(
+      '"extends" is reserved, choose another name.\nVariable name (leave empty to finish): '
+    );
+    expect(questions).toContain(
+      '"code" is already a variable.\nVariable name (leave empty to finish): '
+    );
+    expect(
+      questions.filter(question => question.startsWith('  Type'))
+    ).toHaveLength(2);
+  });
+
+  it('builds a template that parses to the requested schema', () => {
+    const content = buildTemplate({
+      description: 'Review code',
+      variables: [
+        {
+          name: 'code',
+          description: 'the code',
+          optional: false,
+          type: 'string',
+        },
+        {
+          name: 'focus',
+          description: 'focus area',
+          optional: true,
+          type: 'string',
+        },
+        { name: 'limit', description: 'max', optional: false, type: 'integer' },
+        { name: 'tags', description: 'labels', optional: true, type: 'array' },
+      ],
+    });
+    const parsed = parseTemplate(content);
+
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.inputSchema.required).toEqual(['code', 'limit']);
+    expect(parsed.inputSchema.properties.limit?.type).toBe('integer');
+    expect(parsed.inputSchema.properties.tags?.type).toBe('array');
+    expect(content).toContain('focus?: "focus area"');
+  });
+
+  it('builds a template without variables', () => {
+    expect(buildTemplate({ description: '', variables: [] })).toBe(
+      'Describe what this command does.\n'
+    );
+  });
+
+  describe('writeTemplate', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = path.join(
+        __dirname,
+        `../.test-scaffold-${Date.now()}-${Math.random()}`
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('writes and parses the template, creating the directory', async () => {
+      const { filePath, parsed } = await writeTemplate(
+        testDir,
+        'hello',
+        '---\nname: "who"\n---\nHi #{name}\n'
+      );
+      expect(filePath).toBe(path.join(testDir, 'hello.md'));
+      expect(await fs.readFile(filePath, 'utf-8')).toContain('Hi #{name}');
+      expect(parsed.vars.map(variable => variable.name)).toEqual(['name']);
+    });
+
+    it('refuses to overwrite an existing template', async () => {
+      await writeTemplate(testDir, 'hello', 'first');
+      await expect(writeTemplate(testDir, 'hello', 'second')).rejects.toThrow(
+        'already exists'
+      );
+      expect(await fs.readFile(path.join(testDir, 'hello.md'), 'utf-8')).toBe(
+        'first'
+      );
+    });
+  });
+});
@@ -1,8 +1,21 @@
 import fs from 'fs/promises';
+import http from 'http';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLogger } from '../src/logger.ts';
+import { renderTemplate } from '../src/parser.ts';
 import { createCommandServer } from '../src/server.ts';
+import { createMemorySource } from '../src/sources.ts';
+import { createSSEClientTransport } from './fixtures/sse.ts';
+import { createLinkedTransports } from './fixtures/transport.ts';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -198,6 +211,58 @@ Execute: #{cmd}`;
     await server._watcher.stop();
   });
 
+  it('advertises frontmatter name and title', async () => {
+    await fs.writeFile(
+      path.join(testDir, 'cr.md'),
+      `---
+name: code-review
+title: Code Review
+description: Reviews a diff
+---
+Review: #{diff}`
+    );
+
+    server = createCommandServer(testDir);
+    const client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+    const [clientTransport, serverTransport] = createLinkedTransports();
+    await server.start(serverTransport);
+    await client.connect(clientTransport);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const { tools } = await client.listTools();
+    expect(tools).toEqual([
+      expect.objectContaining({
+        name: 'code-review',
+        title: 'Code Review',
+        description: 'Reviews a diff',
+      }),
+    ]);
+    const { prompts } = await client.listPrompts();
+    expect(prompts).toEqual([
+      expect.objectContaining({ name: 'code-review', title: 'Code Review' }),
+    ]);
+
+    // Renaming the tool replaces the old registration
+    await fs.writeFile(
+      path.join(testDir, 'cr.md'),
+      `---
+name: review
+---
+Review: #{diff}`
+    );
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(Array.from(server._tools.keys())).toEqual(['review']);
+
+    await fs.rm(path.join(testDir, 'cr.md'));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(server._tools.size).toBe(0);
+
+    await client.close();
+  });
+
   it('handles multiple variables in templates', async () => {
     const cmdFile = path.join(testDir, 'multi.md');
     const content = `---
@@ -418,6 +483,131 @@ suffix?: "optional suffix"
     await server._watcher.stop();
   });
 
+  it('inlines partials from subdirectories without registering them', async () => {
+    await fs.mkdir(path.join(testDir, 'partials'), { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'partials/style.md'),
+      `---
+language: "programming language"
+---
+Follow the #{language} style guide.`
+    );
+    await fs.writeFile(
+      path.join(testDir, 'review.md'),
+      `---
+code: "code to review"
+---
+Review #{code}. #{>partials/style}`
+    );
+
+    server = createCommandServer(testDir);
+    await server._watcher.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(Array.from(server._tools.keys())).toEqual(['review']);
+    const tool = server._tools.get('review');
+    expect(tool?.parsed.vars.map((v: any) => v.name)).toEqual([
+      'code',
+      'language',
+    ]);
+
+    await server._watcher.stop();
+  });
+
+  it('registers nested commands under namespaced names', async () => {
+    await fs.mkdir(path.join(testDir, 'review/deep'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'partials'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'top.md'), 'Top');
+    await fs.writeFile(path.join(testDir, 'review/security.md'), 'Security');
+    await fs.writeFile(path.join(testDir, 'review/deep/too-deep.md'), 'Deep');
+    await fs.writeFile(path.join(testDir, 'partials/sig.md'), 'Signed');
+
+    server = createCommandServer(testDir, { depth: 1, separator: '.' });
+    await server._watcher.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(Array.from(server._tools.keys()).sort()).toEqual([
+      'review.security',
+      'top',
+    ]);
+
+    await fs.writeFile(path.join(testDir, 'review/style.md'), 'Style');
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(server._tools.get('review.style')?.description).toBe('Style');
+
+    await fs.rm(path.join(testDir, 'review/security.md'));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(server._tools.has('review.security')).toBe(false);
+
+    await server._watcher.stop();
+  });
+
+  it('re-parses dependents when a partial changes', async () => {
+    await fs.mkdir(path.join(testDir, 'partials'), { recursive: true });
+    const partialFile = path.join(testDir, 'partials/footer.md');
+    await fs.writeFile(partialFile, 'Footer v1');
+    await fs.writeFile(
+      path.join(testDir, 'page.md'),
+      'Page #{>partials/footer}'
+    );
+
+    server = createCommandServer(testDir);
+    await server._watcher.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(server._tools.get('page')?.parsed.ast.join('')).toBe(
+      'Page Footer v1'
+    );
+
+    await fs.writeFile(
+      partialFile,
+      `---
+year: "copyright year"
+---
+Footer #{year}`
+    );
+    await new Promise(resolve => setTimeout(resolve, 800));
+
+    const tool = server._tools.get('page');
+    expect(tool?.parsed.vars.map((v: any) => v.name)).toEqual(['year']);
+
+    await server._watcher.stop();
+  });
+
+  it('re-registers children when their base template changes', async () => {
+    await fs.mkdir(path.join(testDir, 'bases'), { recursive: true });
+    const baseFile = path.join(testDir, 'bases/review.md');
+    await fs.writeFile(baseFile, 'Review. #{#footer}v1#{/footer}');
+    await fs.writeFile(
+      path.join(testDir, 'child.md'),
+      `---
+extends: bases/review
+---
+`
+    );
+
+    server = createCommandServer(testDir);
+    await server._watcher.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const child = server._tools.get('child');
+    expect(child?.parsed.parents).toEqual([path.resolve(baseFile)]);
+
+    await fs.writeFile(
+      baseFile,
+      `---
+code: "code to review"
+---
+Review #{code}. #{#footer}v2#{/footer}`
+    );
+    await new Promise(resolve => setTimeout(resolve, 800));
+
+    const updated = server._tools.get('child');
+    expect(updated?.parsed.vars.map((v: any) => v.name)).toEqual(['code']);
+
+    await server._watcher.stop();
+  });
+
   it('handles prompts with optional parameters', async () => {
     const cmdFile = path.join(testDir, 'prompt-optional.md');
     const content = `---
@@ -444,3 +634,757 @@ Discuss #{topic}#{context? with context: }#{context?}`;
     await server._watcher.stop();
   });
 });
+
+describe('createCommandServer - argument validation', () => {
+  let testDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+  let client: Client;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-server-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'greet.md'),
+      `---
+name: "person's name"
+times:
+  type: integer
+  minimum: 1
+tone?:
+  enum: [formal, casual]
+mark:
+  description: "closing punctuation"
+  default: "."
+---
+Greet #{name} #{times} times#{?tone} in a #{tone} tone#{/tone}#{mark}`
+    );
+
+    server = createCommandServer([testDir]);
+    client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+    const [clientTransport, serverTransport] = createLinkedTransports();
+    await server.start(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('renders tool calls with coerced arguments', async () => {
+    const result = await client.callTool({
+      name: 'greet',
+      arguments: { name: 'Emma', times: '2', tone: 'casual' },
+    });
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Greet Emma 2 times in a casual tone.' },
+    ]);
+  });
+
+  it('rejects invalid tool arguments with every violation', async () => {
+    const error = await client
+      .callTool({
+        name: 'greet',
+        arguments: { times: '0', tone: 'rude', extra: 'x' },
+      })
+      .catch(err => err);
+
+    expect(error.code).toBe(-32602);
+    expect(error.message).toContain('extra: Unknown argument');
+    expect(error.message).toContain('name: Missing required argument');
+    expect(error.message).toContain('times: Must be >= 1');
+    expect(error.message).toContain('tone: Must be one of: formal, casual');
+  });
+
+  it('applies defaults for omitted tool arguments', async () => {
+    const withDefault = await client.callTool({
+      name: 'greet',
+      arguments: { name: 'Emma', times: 1 },
+    });
+    expect(withDefault.content).toEqual([
+      { type: 'text', text: 'Greet Emma 1 times.' },
+    ]);
+
+    const overridden = await client.callTool({
+      name: 'greet',
+      arguments: { name: 'Emma', times: 1, mark: '!' },
+    });
+    expect(overridden.content).toEqual([
+      { type: 'text', text: 'Greet Emma 1 times!' },
+    ]);
+  });
+
+  it('lists defaults in prompt arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    const mark = prompts[0]?.arguments?.find(arg => arg.name === 'mark');
+    expect(mark).toEqual({
+      name: 'mark',
+      description: 'closing punctuation',
+      required: false,
+      default: '.',
+    });
+  });
+
+  it('validates prompt arguments', async () => {
+    const error = await client
+      .getPrompt({ name: 'greet', arguments: { name: 'Emma', times: 'x' } })
+      .catch(err => err);
+
+    expect(error.code).toBe(-32602);
+    expect(error.message).toContain('times: Expected integer');
+  });
+
+  it('renders prompts with valid arguments', async () => {
+    const result = await client.getPrompt({
+      name: 'greet',
+      arguments: { name: 'Emma', times: '1' },
+    });
+    expect(result.messages[0]?.content).toEqual({
+      type: 'text',
+      text: 'Greet Emma 1 times.',
+    });
+  });
+});
+
+describe('createCommandServer - name collisions', () => {
+  let base: string;
+  let globalDir: string;
+  let projectDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    base = path.join(
+      __dirname,
+      `../.test-collisions-${Date.now()}-${Math.random()}`
+    );
+    globalDir = path.join(base, 'global');
+    projectDir = path.join(base, 'project');
+    await fs.mkdir(globalDir, { recursive: true });
+    await fs.mkdir(projectDir, { recursive: true });
+    await fs.writeFile(path.join(globalDir, 'review.md'), 'Global review');
+    await fs.writeFile(path.join(projectDir, 'review.md'), 'Project review');
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    warn.mockRestore();
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it('serves the project command and warns about the shadowed one', async () => {
+    server = createCommandServer([globalDir, projectDir]);
+    await server._watcher.start();
+
+    expect(server._tools.get('review')?.description).toBe('Project review');
+    expect(server._candidates.get('review')).toHaveLength(2);
+    expect(warn).toHaveBeenCalledWith(
+      `Warning: review: ${path.join(projectDir, 'review.md')} overrides ${path.join(globalDir, 'review.md')}`
+    );
+  });
+
+  it('keeps the winner when the shadowed file changes', async () => {
+    server = createCommandServer([globalDir, projectDir]);
+    await server._watcher.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    await fs.writeFile(path.join(globalDir, 'review.md'), 'Global v2');
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    expect(server._tools.get('review')?.description).toBe('Project review');
+    expect(
+      server._candidates.get('review')?.map(tool => tool.description)
+    ).toContain('Global v2');
+  });
+
+  it('falls back to the shadowed file when the winner is deleted', async () => {
+    server = createCommandServer([globalDir, projectDir]);
+    await server._watcher.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    await fs.rm(path.join(projectDir, 'review.md'));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(server._tools.get('review')?.description).toBe('Global review');
+
+    await fs.rm(path.join(globalDir, 'review.md'));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(server._tools.has('review')).toBe(false);
+    expect(server._candidates.has('review')).toBe(false);
+  });
+
+  it('lets the first directory win with first precedence', async () => {
+    server = createCommandServer([globalDir, projectDir], {
+      precedence: 'first',
+    });
+    await server._watcher.start();
+
+    expect(server._tools.get('review')?.description).toBe('Global review');
+  });
+
+  it('does not warn below the warn log level', async () => {
+    server = createCommandServer([globalDir, projectDir], {
+      logger: createLogger('error'),
+    });
+    await server._watcher.start();
+
+    expect(server._tools.get('review')?.description).toBe('Project review');
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('createCommandServer - list changed notifications', () => {
+  let testDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+  let client: Client;
+  let toolsChanged: number;
+  let promptsChanged: number;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-list-changed-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(path.join(testDir, 'partials'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'partials/sig.md'), 'Signed');
+    await fs.writeFile(path.join(testDir, 'greet.md'), 'Hi #{>partials/sig}');
+
+    toolsChanged = 0;
+    promptsChanged = 0;
+    server = createCommandServer([testDir]);
+    client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      toolsChanged += 1;
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+      promptsChanged += 1;
+    });
+    const [clientTransport, serverTransport] = createLinkedTransports();
+    await server.start(serverTransport);
+    await client.connect(clientTransport);
+    await new Promise(resolve => setTimeout(resolve, 300));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('advertises listChanged for tools and prompts', () => {
+    expect(client.getServerCapabilities()).toMatchObject({
+      tools: { listChanged: true },
+      prompts: { listChanged: true },
+    });
+    expect(toolsChanged).toBe(0);
+  });
+
+  it('sends one debounced notification for a burst of changes', async () => {
+    await Promise.all([
+      fs.writeFile(path.join(testDir, 'a.md'), 'A'),
+      fs.writeFile(path.join(testDir, 'b.md'), 'B'),
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 700));
+
+    expect(Array.from(server._tools.keys()).sort()).toEqual([
+      'a',
+      'b',
+      'greet',
+    ]);
+    expect(toolsChanged).toBe(1);
+    expect(promptsChanged).toBe(1);
+
+    await fs.rm(path.join(testDir, 'a.md'));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(toolsChanged).toBe(2);
+  });
+
+  it('notifies when a partial used by a command changes', async () => {
+    await fs.writeFile(path.join(testDir, 'partials/sig.md'), 'Thanks');
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    expect(toolsChanged).toBe(1);
+    expect(promptsChanged).toBe(1);
+  });
+});
+
+describe('createCommandServer - exposure', () => {
+  let testDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+  let client: Client;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-expose-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'greet.md'), 'Hello');
+    client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const connect = async (expose: 'tools' | 'prompts'): Promise<void> => {
+    server = createCommandServer([testDir], { expose });
+    const [clientTransport, serverTransport] = createLinkedTransports();
+    await server.start(serverTransport);
+    await client.connect(clientTransport);
+  };
+
+  it('serves only tools with expose "tools"', async () => {
+    await connect('tools');
+
+    expect(client.getServerCapabilities()?.prompts).toBeUndefined();
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['greet']);
+    await expect(client.listPrompts()).rejects.toThrow();
+  });
+
+  it('serves only prompts with expose "prompts"', async () => {
+    await connect('prompts');
+
+    expect(client.getServerCapabilities()?.tools).toBeUndefined();
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['greet']);
+    await expect(client.listTools()).rejects.toThrow();
+  });
+});
+
+describe('createCommandServer - HTTP transport', () => {
+  let testDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-http-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(
+      path.join(testDir, 'greet.md'),
+      '---\nwho: "who to greet"\n---\nHello #{who}'
+    );
+    clients = [];
+    server = createCommandServer([testDir]);
+    await server.start({ port: 0 });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const connectClient = async (): Promise<Client> => {
+    const client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+    await client.connect(createSSEClientTransport(server.url() ?? ''));
+    clients.push(client);
+    return client;
+  };
+
+  it('listens on localhost', () => {
+    expect(server.url()).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/sse$/);
+  });
+
+  it('serves several clients from one registry', async () => {
+    const [first, second] = [await connectClient(), await connectClient()];
+    expect(server._sessions.size).toBe(2);
+
+    const result = await first.callTool({
+      name: 'greet',
+      arguments: { who: 'Ann' },
+    });
+    expect(result.content).toEqual([{ type: 'text', text: 'Hello Ann' }]);
+
+    const { prompts } = await second.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['greet']);
+  });
+
+  it('notifies every client when commands change', async () => {
+    const notified: string[] = [];
+    const [first, second] = [await connectClient(), await connectClient()];
+    first.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notified.push('first');
+    });
+    second.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notified.push('second');
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    await fs.writeFile(path.join(testDir, 'bye.md'), 'Bye');
+    // The watcher and the SSE streams can be slow while other suites run
+    await vi.waitFor(() => expect(notified).toHaveLength(2), {
+      timeout: 3000,
+    });
+
+    expect(notified.sort()).toEqual(['first', 'second']);
+    const { tools } = await second.listTools();
+    expect(tools.map(tool => tool.name).sort()).toEqual(['bye', 'greet']);
+  });
+
+  it('drops the session of a disconnected client', async () => {
+    const client = await connectClient();
+    await client.close();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(server._sessions.size).toBe(0);
+  });
+
+  it('rejects unknown paths and sessions', async () => {
+    const base = new URL(server.url() ?? '');
+    expect((await fetch(new URL('/other', base))).status).toBe(404);
+
+    const response = await fetch(new URL('/messages?sessionId=nope', base), {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: '{}',
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects requests addressed to other hosts or from web pages', async () => {
+    const { port } = new URL(server.url() ?? '');
+    // fetch does not allow setting Host, so requests are made with http
+    const statusFor = (headers: Record<string, string>): Promise<number> =>
+      new Promise((resolve, reject) => {
+        http
+          .get({ host: '127.0.0.1', port, path: '/other', headers }, res => {
+            res.resume();
+            resolve(res.statusCode ?? 0);
+          })
+          .on('error', reject);
+      });
+
+    expect(await statusFor({ host: `localhost:${port}` })).toBe(404);
+    expect(await statusFor({ host: `[::1]:${port}` })).toBe(404);
+    expect(
+      await statusFor({
+        host: `127.0.0.1:${port}`,
+        origin: 'http://localhost:5173',
+      })
+    ).toBe(404);
+    expect(await statusFor({ host: `attacker.example:${port}` })).toBe(403);
+    expect(await statusFor({ host: 'localhost:1' })).toBe(403);
+    expect(
+      await statusFor({
+        host: `127.0.0.1:${port}`,
+        origin: 'http://attacker.example',
+      })
+    ).toBe(403);
+    expect(await statusFor({ host: `127.0.0.1:${port}`, origin: 'null' })).toBe(
+      403
+    );
+  });
+});
+
+describe('createCommandServer - template sources', () => {
+  let testDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+  let client: Client;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-sources-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const connect = async (): Promise<void> => {
+    const [clientTransport, serverTransport] = createLinkedTransports();
+    await server.start(serverTransport);
+    await client.connect(clientTransport);
+  };
+
+  it('serves templates from an in-memory source with includes', async () => {
+    const memory = createMemorySource({
+      greet: 'Hello #{>partials/sig}',
+      'partials/sig.md': 'from memory',
+    });
+    server = createCommandServer([memory]);
+    await connect();
+
+    const { tools } = await client.listTools();
+    expect(tools.map(tool => tool.name)).toEqual(['greet']);
+    const result = await client.callTool({ name: 'greet', arguments: {} });
+    expect(result.content).toEqual([
+      { type: 'text', text: 'Hello from memory' },
+    ]);
+  });
+
+  it('ranks sources and directories in the given order', async () => {
+    await fs.writeFile(path.join(testDir, 'review.md'), 'From disk');
+    const memory = createMemorySource({ review: 'From memory' });
+    server = createCommandServer([memory, testDir]);
+    await connect();
+
+    expect(server._tools.get('review')?.description).toBe('From disk');
+    expect(server._candidates.get('review')).toHaveLength(2);
+  });
+
+  it('updates the registry and notifies on source changes', async () => {
+    let toolsChanged = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      toolsChanged += 1;
+    });
+    const memory = createMemorySource({ 'partials/sig.md': 'v1' });
+    server = createCommandServer([memory]);
+    await connect();
+
+    await memory.set('greet', 'Hi #{>partials/sig}');
+    expect(server._tools.get('greet')?.parsed.template).toBe(
+      'Hi #{>partials/sig}'
+    );
+    await memory.set('partials/sig', 'v2');
+    const result = await client.callTool({ name: 'greet', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'Hi v2' }]);
+
+    await memory.delete('greet');
+    expect(server._tools.has('greet')).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(toolsChanged).toBe(1);
+  });
+});
+
+describe('createCommandServer - registerTemplate and hooks', () => {
+  let testDir: string;
+  let server: ReturnType<typeof createCommandServer>;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      __dirname,
+      `../.test-register-${Date.now()}-${Math.random()}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'review.md'), 'From disk');
+    server = createCommandServer([testDir]);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('registers templates from code over files', async () => {
+    const registered: string[] = [];
+    const unregistered: string[] = [];
+    server.on('register', tool => registered.push(tool.name));
+    server.on('unregister', name => unregistered.push(name));
+
+    await server.registerTemplate('partials/sig', 'Signed');
+    await server.registerTemplate('greet', 'Hello #{>partials/sig}');
+    await server.start(createLinkedTransports()[1]);
+    expect(new Set(registered)).toEqual(new Set(['review', 'greet']));
+    const greet = server._tools.get('greet');
+    expect(greet && renderTemplate(greet.parsed, {})).toBe('Hello Signed');
+
+    registered.length = 0;
+    await server.registerTemplate('review', 'From code');
+    expect(server._tools.get('review')?.description).toBe('From code');
+    expect(await server.unregisterTemplate('review')).toBe(true);
+    expect(server._tools.get('review')?.description).toBe('From disk');
+    // Added templates also re-parse templates with includes, such as greet
+    expect(registered.filter(name => name === 'review')).toHaveLength(2);
+
+    expect(await server.unregisterTemplate('greet')).toBe(true);
+    expect(await server.unregisterTemplate('greet')).toBe(false);
+    expect(unregistered).toEqual(['greet']);
+  });
+
+  it('reports parse errors and removes hooks', async () => {
+    // Includes are read through every source, so this one fails them all
+    const unreadable = {
+      ...createMemorySource({}, { root: '/unreadable' }),
+      read: () => {
+        throw new Error('unreadable');
+      },
+    };
+    server = createCommandServer([testDir, unreadable]);
+    const errors: string[] = [];
+    const off = server.on('error', (_error, filePath) =>
+      errors.push(path.basename(filePath))
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await server.start(createLinkedTransports()[1]);
+
+    await server.registerTemplate('bad', 'Hi #{>partials/sig}');
+    off();
+    await server.registerTemplate('worse', 'Hi #{>partials/sig}');
+
+    expect(errors).toEqual(['bad.md']);
+    expect(server._tools.has('bad')).toBe(false);
+    vi.restoreAllMocks();
+  });
+
+  it('serves templates with invalid filters, reporting them', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await server.start(createLinkedTransports()[1]);
+
+    await server.registerTemplate(
+      'shout',
+      '---\nx: "value"\n---\n#{x | bogus}'
+    );
+    expect(server._tools.get('shout')?.parsed.diagnostics).toEqual([
+      expect.objectContaining({ code: 'invalid-filter', line: 4, column: 1 }),
+    ]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringMatching(/shout\.md:4:1: error: Unknown filter "bogus"/)
+    );
+    vi.restoreAllMocks();
+  });
+
+  it('keeps serving when a hook throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.on('register', () => {
+      throw new Error('hook failed');
+    });
+    await server.start(createLinkedTransports()[1]);
+
+    await server.registerTemplate('greet', 'Hello');
+    expect(server._tools.has('greet')).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(
+      'Error in register hook:',
+      expect.any(Error)
+    );
+    vi.restoreAllMocks();
+  });
+});
+
+describe('createCommandServer - resources', () => {
+  let server: ReturnType<typeof createCommandServer>;
+  let client: Client;
+  let memory: ReturnType<typeof createMemorySource>;
+
+  const template = '---\nwho: "Person to greet"\n---\nHello #{who}';
+
+  beforeEach(async () => {
+    memory = createMemorySource({ greet: template, review: 'Review' });
+    server = createCommandServer([memory], { expose: 'tools' });
+    client = new Client(
+      { name: 'test-client', version: '1.0.0' },
+      { capabilities: {} }
+    );
+    const [clientTransport, serverTransport] = createLinkedTransports();
+    await server.start(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+  });
+
+  it('advertises resources whatever is exposed', () => {
+    expect(client.getServerCapabilities()).toMatchObject({
+      resources: { subscribe: true, listChanged: true },
+    });
+  });
+
+  it('lists the source and metadata of every command', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'command://greet',
+      'command://greet/metadata',
+      'command://review',
+      'command://review/metadata',
+    ]);
+    expect(resources[0]).toMatchObject({
+      name: 'greet',
+      mimeType: 'text/markdown',
+    });
+  });
+
+  it('reads the raw template and its parsed metadata', async () => {
+    const source = await client.readResource({ uri: 'command://greet' });
+    expect(source.contents).toEqual([
+      { uri: 'command://greet', mimeType: 'text/markdown', text: template },
+    ]);
+
+    const { contents } = await client.readResource({
+      uri: 'command://greet/metadata',
+    });
+    expect(contents[0].mimeType).toBe('application/json');
+    const metadata = JSON.parse(contents[0].text as string);
+    expect(metadata).toMatchObject({
+      name: 'greet',
+      filePath: path.resolve('/memory/greet.md'),
+      variables: ['who'],
+      inputSchema: {
+        properties: { who: { type: 'string' } },
+        required: ['who'],
+      },
+    });
+  });
+
+  it('rejects unknown resources', async () => {
+    await expect(
+      client.readResource({ uri: 'command://missing' })
+    ).rejects.toThrow('Resource not found: command://missing');
+    await expect(
+      client.readResource({ uri: 'file:///etc/passwd' })
+    ).rejects.toThrow('Resource not found');
+  });
+
+  it('notifies subscribers of changed commands', async () => {
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      notification => {
+        updated.push(notification.params.uri);
+      }
+    );
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged += 1;
+    });
+    await client.subscribeResource({ uri: 'command://greet' });
+    await client.subscribeResource({ uri: 'command://review/metadata' });
+    await client.subscribeResource({ uri: 'command://later' });
+
+    await memory.set('greet', 'Hello again');
+    await memory.set('later', 'New command');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(updated.sort()).toEqual(['command://greet', 'command://later']);
+    expect(listChanged).toBe(1);
+
+    await client.unsubscribeResource({ uri: 'command://greet' });
+    await memory.delete('greet');
+    await memory.delete('review');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(updated.slice(2)).toEqual(['command://review/metadata']);
+    expect(listChanged).toBe(2);
+  });
+});
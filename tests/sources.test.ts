@@ -0,0 +1,82 @@
+import path from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import { createMemorySource, isTemplateSource } from '../src/sources.ts';
+
+describe('createMemorySource', () => {
+  const root = path.resolve('/memory');
+
+  it('lists and reads templates under its root', async () => {
+    const source = createMemorySource({
+      review: 'Review',
+      'partials/sig.md': 'Signed',
+    });
+
+    expect(source.roots).toEqual([root]);
+    expect(await source.list()).toEqual([
+      path.join(root, 'partials/sig.md'),
+      path.join(root, 'review.md'),
+    ]);
+    expect(source.read(path.join(root, 'review.md'))).toBe('Review');
+    expect(source.read(path.join(root, 'missing.md'))).toBeUndefined();
+  });
+
+  it('emits add for existing templates on start, then changes', async () => {
+    const source = createMemorySource({ review: 'Review' }, { root: '/lib' });
+    const handler = vi.fn();
+    source.subscribe(handler);
+
+    await source.set('early', 'Before start');
+    expect(handler).not.toHaveBeenCalled();
+
+    await source.start();
+    expect(handler.mock.calls.map(([change]) => change)).toEqual([
+      {
+        event: 'add',
+        filePath: path.resolve('/lib/review.md'),
+        content: 'Review',
+      },
+      {
+        event: 'add',
+        filePath: path.resolve('/lib/early.md'),
+        content: 'Before start',
+      },
+    ]);
+
+    handler.mockClear();
+    await source.set('review', 'Review v2');
+    expect(await source.delete('review')).toBe(true);
+    expect(await source.delete('review')).toBe(false);
+    expect(handler.mock.calls.map(([change]) => change.event)).toEqual([
+      'change',
+      'unlink',
+    ]);
+  });
+
+  it('stops notifying after unsubscribe or stop', async () => {
+    const source = createMemorySource();
+    const handler = vi.fn();
+    const unsubscribe = source.subscribe(handler);
+    await source.start();
+
+    unsubscribe();
+    await source.set('a', 'A');
+    source.subscribe(handler);
+    await source.stop();
+    await source.set('b', 'B');
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await source.list()).toHaveLength(2);
+  });
+
+  it('rejects names outside the root', async () => {
+    const source = createMemorySource();
+    await expect(source.set('../secret', 'x')).rejects.toThrow(
+      `Invalid template name "../secret": must stay inside ${root}`
+    );
+  });
+
+  it('is recognized as a template source', () => {
+    expect(isTemplateSource(createMemorySource())).toBe(true);
+    expect(isTemplateSource('/commands')).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate } from '../src/parser.ts';
+import { validateArguments } from '../src/validator.ts';
+
+const schemaFor = (template: string) => parseTemplate(template).inputSchema;
+
+describe('Validator - Required and Unknown Arguments', () => {
+  const schema = schemaFor(`---
+name: "person's name"
+title?: "optional title"
+---
+#{title?}#{name}`);
+
+  it('accepts valid arguments', () => {
+    const result = validateArguments(schema, { name: 'Emma', title: 'Dr. ' });
+    expect(result.issues).toEqual([]);
+    expect(result.values).toEqual({ name: 'Emma', title: 'Dr. ' });
+  });
+
+  it('reports missing required arguments', () => {
+    const result = validateArguments(schema, {});
+    expect(result.issues).toEqual([
+      { argument: 'name', message: 'Missing required argument' },
+    ]);
+  });
+
+  it('rejects unknown arguments', () => {
+    const result = validateArguments(schema, { name: 'Emma', nmae: 'x' });
+    expect(result.issues).toEqual([
+      { argument: 'nmae', message: 'Unknown argument' },
+    ]);
+  });
+
+  it('rejects arguments named after inherited object properties', () => {
+    const result = validateArguments(schema, { name: 'Emma', toString: 'x' });
+    expect(result.issues).toEqual([
+      { argument: 'toString', message: 'Unknown argument' },
+    ]);
+  });
+
+  it('allows empty string for optional arguments', () => {
+    const result = validateArguments(schema, { name: 'Emma', title: '' });
+    expect(result.issues).toEqual([]);
+    expect(result.values.title).toBe('');
+  });
+
+  it('reports every violation at once', () => {
+    const result = validateArguments(schema, { extra: 1 });
+    expect(result.issues).toHaveLength(2);
+  });
+});
+
+describe('Validator - Typed Arguments', () => {
+  const schema = schemaFor(`---
+count:
+  type: integer
+  minimum: 1
+  maximum: 5
+ratio?:
+  type: number
+strict?:
+  type: boolean
+language?:
+  enum: [python, go]
+ticket?:
+  type: string
+  pattern: "^[A-Z]+-[0-9]+$"
+tags?:
+  type: array
+  items:
+    enum: [bug, feature]
+---
+#{count} #{ratio} #{strict} #{language} #{ticket} #{tags}`);
+
+  it('coerces string inputs to declared types', () => {
+    const result = validateArguments(schema, {
+      count: '3',
+      ratio: '0.5',
+      strict: 'true',
+      tags: 'bug, feature',
+    });
+    expect(result.issues).toEqual([]);
+    expect(result.values).toEqual({
+      count: 3,
+      ratio: 0.5,
+      strict: true,
+      tags: ['bug', 'feature'],
+    });
+  });
+
+  it('accepts native JSON values', () => {
+    const result = validateArguments(schema, {
+      count: 2,
+      strict: false,
+      tags: ['bug'],
+    });
+    expect(result.issues).toEqual([]);
+    expect(result.values.strict).toBe(false);
+  });
+
+  it('parses JSON and newline separated arrays', () => {
+    expect(
+      validateArguments(schema, { count: 1, tags: '["bug"]' }).values.tags
+    ).toEqual(['bug']);
+    expect(
+      validateArguments(schema, { count: 1, tags: 'bug\nfeature' }).values.tags
+    ).toEqual(['bug', 'feature']);
+  });
+
+  it('rejects values of the wrong type', () => {
+    const result = validateArguments(schema, {
+      count: '2.5',
+      ratio: 'abc',
+      strict: 'yes',
+    });
+    expect(result.issues).toEqual([
+      { argument: 'count', message: 'Expected integer' },
+      { argument: 'ratio', message: 'Expected number' },
+      { argument: 'strict', message: 'Expected boolean' },
+    ]);
+  });
+
+  it('enforces minimum and maximum', () => {
+    expect(validateArguments(schema, { count: 0 }).issues).toEqual([
+      { argument: 'count', message: 'Must be >= 1' },
+    ]);
+    expect(validateArguments(schema, { count: 6 }).issues).toEqual([
+      { argument: 'count', message: 'Must be <= 5' },
+    ]);
+  });
+
+  it('enforces enum membership', () => {
+    const result = validateArguments(schema, { count: 1, language: 'ruby' });
+    expect(result.issues).toEqual([
+      { argument: 'language', message: 'Must be one of: python, go' },
+    ]);
+  });
+
+  it('enforces patterns', () => {
+    expect(
+      validateArguments(schema, { count: 1, ticket: 'ABC-12' }).issues
+    ).toEqual([]);
+    expect(
+      validateArguments(schema, { count: 1, ticket: 'abc' }).issues
+    ).toEqual([
+      { argument: 'ticket', message: 'Must match pattern ^[A-Z]+-[0-9]+$' },
+    ]);
+  });
+
+  it('validates each array item', () => {
+    const result = validateArguments(schema, {
+      count: 1,
+      tags: ['bug', 'chore'],
+    });
+    expect(result.issues).toEqual([
+      { argument: 'tags', message: 'Item 1: Must be one of: bug, feature' },
+    ]);
+  });
+});
@@ -380,4 +380,27 @@ describe('CommandWatcher', () => {
       await fs.rm(testDir2, { recursive: true, force: true });
     }
   });
+
+  it('lists command files and reads files inside its directories', async () => {
+    const filePath = path.join(testDir, 'cmd.md');
+    await fs.writeFile(filePath, 'Command');
+    await fs.mkdir(path.join(testDir, 'partials'));
+    await fs.writeFile(path.join(testDir, 'partials/sig.md'), 'Signed');
+
+    expect(watcher.roots).toEqual([testDir]);
+    expect(await watcher.list()).toEqual([filePath]);
+    expect(watcher.read(path.join(testDir, 'partials/sig.md'))).toBe('Signed');
+    expect(watcher.read(path.join(testDir, 'missing.md'))).toBeUndefined();
+    expect(watcher.read(path.join(__dirname, 'cli.test.ts'))).toBeUndefined();
+  });
+
+  it('stops calling a handler after unsubscribe', async () => {
+    await fs.writeFile(path.join(testDir, 'cmd.md'), 'Command');
+    const handler = vi.fn();
+    const unsubscribe = watcher.subscribe(handler);
+    unsubscribe();
+    await watcher.start();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
 });